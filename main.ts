@@ -26,6 +26,167 @@ function nextUrlFromResponse(
   }
 }
 
+/************************ */
+/*         ERRORS         */
+/************************ */
+
+// Twitter returns these next to (or instead of) `data` for items that can't be returned,
+// rather than failing the whole request.
+interface TwitterApiError {
+  title: string;
+  detail?: string;
+  type?: string;
+  value?: string;
+  resource_type?: string;
+  resource_id?: string;
+  parameter?: string;
+}
+
+type ItemStatus =
+  | "Available"
+  | "Not found"
+  | "Protected"
+  | "Suspended"
+  | "Author unavailable"
+  | "Invalid"
+  | "Unavailable";
+
+function getErrorStatus({ detail, type }: TwitterApiError): ItemStatus {
+  if (/suspended/i.test(detail ?? "")) {
+    return "Suspended";
+  }
+  if (type?.endsWith("/not-authorized-for-resource")) {
+    return "Protected";
+  }
+  if (type?.endsWith("/resource-not-found")) {
+    return "Not found";
+  }
+  return "Unavailable";
+}
+
+function describeTwitterError(error: TwitterApiError): string {
+  const resourceType =
+    error.resource_type === "user"
+      ? "User"
+      : error.resource_type === "tweet"
+      ? "Tweet"
+      : "Item";
+  const resource = `${resourceType} ${error.value ?? error.resource_id ?? ""}`;
+  switch (getErrorStatus(error)) {
+    case "Suspended":
+      return `${resource} belongs to a suspended account.`;
+    case "Protected":
+      return `${resource} is protected. Connect an account that follows it to see it.`;
+    case "Not found":
+      return `${resource} was not found. It may have been deleted.`;
+    default:
+      return error.detail ?? `${resource} is unavailable.`;
+  }
+}
+
+// Single lookups return an `errors` array instead of `data` when the item is unavailable.
+function ensureFound<T>(
+  { data, errors }: { data?: T; errors?: TwitterApiError[] },
+  notFoundMessage: string
+): T {
+  if (data) {
+    return data;
+  }
+  throw new coda.UserVisibleError(
+    errors?.length ? describeTwitterError(errors[0]) : notFoundMessage
+  );
+}
+
+function logPartialErrors(endpoint: string, errors?: TwitterApiError[]) {
+  if (!errors?.length) {
+    return;
+  }
+  const countsByStatus: Record<string, number> = {};
+  for (const error of errors) {
+    const status = getErrorStatus(error);
+    countsByStatus[status] = (countsByStatus[status] ?? 0) + 1;
+  }
+  const summary = Object.entries(countsByStatus)
+    .map(([status, count]) => `${count} ${status.toLowerCase()}`)
+    .join(", ");
+  console.log(`${endpoint}: skipped ${errors.length} items (${summary})`);
+}
+
+// Twitter's rate limits reset every 15 minutes, so we only wait for a reset that is
+// close enough to fit within a single execution. Anything longer fails right away, since
+// a sync continuation would run straight away and hit the same limit. Incremental syncs
+// resume from where they stopped on their next run instead (see resumableTweetSync).
+const MaxRateLimitWaitSecs = 30;
+
+class TwitterRateLimitError extends coda.UserVisibleError {
+  constructor(readonly endpoint: string, readonly resetAt?: Date) {
+    super(
+      `Twitter's rate limit for ${endpoint} was reached. ` +
+        (resetAt
+          ? `It resets at ${resetAt.toISOString()}.`
+          : "Try again in a few minutes.")
+    );
+  }
+}
+
+// Collapses IDs in the path so that the endpoint reads like Twitter's docs, e.g.
+// "GET /2/users/:id/followers".
+function getEndpointName({ method, url }: coda.FetchRequest): string {
+  const path = url.replace(`https://${baseApiUrl}`, "").split("?")[0];
+  return `${method} ${path.replace(/(\/\w+)\/\d+/g, "$1/:id")}`;
+}
+
+function getRateLimitReset(
+  headers: Record<string, string | string[] | undefined> = {}
+): Date | undefined {
+  const reset = Number(headers["x-rate-limit-reset"]);
+  return reset ? new Date(reset * 1000) : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// All requests to Twitter go through here so that rate limits are handled in one place.
+async function twitterFetch(
+  context: coda.ExecutionContext,
+  request: coda.FetchRequest,
+  hasRetried = false
+): Promise<coda.FetchResponse<any>> {
+  const endpoint = getEndpointName(request);
+  let response: coda.FetchResponse<any>;
+  try {
+    response = await context.fetcher.fetch(request);
+  } catch (error) {
+    if (error?.statusCode !== 429) {
+      throw error;
+    }
+    const resetAt = getRateLimitReset(error.response?.headers);
+    const waitMs = resetAt ? resetAt.getTime() - Date.now() : undefined;
+    if (
+      !hasRetried &&
+      waitMs !== undefined &&
+      waitMs <= MaxRateLimitWaitSecs * 1000
+    ) {
+      console.log(`Rate limited on ${endpoint}, retrying in ${waitMs}ms`);
+      await sleep(Math.max(waitMs, 0));
+      return twitterFetch(context, request, true);
+    }
+    throw new TwitterRateLimitError(endpoint, resetAt);
+  }
+
+  const { headers } = response;
+  if (headers["x-rate-limit-remaining"] !== undefined) {
+    console.log(
+      `${endpoint}: ${headers["x-rate-limit-remaining"]}/${
+        headers["x-rate-limit-limit"]
+      } requests remaining until ${getRateLimitReset(headers)?.toISOString()}`
+    );
+  }
+  logPartialErrors(endpoint, response.body?.errors);
+  return response;
+}
+
 // This formula is used in the authentication definition in the manifest.
 // It returns a simple label for the current user's account so the account
 // can be identified in the UI.
@@ -34,10 +195,21 @@ const getConnectionName = coda.makeMetadataFormula(async (context) => {
     method: "GET",
     url: apiUrl("/2/users/me"),
   };
-  const response = await context.fetcher.fetch(request);
+  const response = await twitterFetch(context, request);
   return response.body?.data?.username;
 });
 
+async function getAuthenticatedUserId(
+  context: coda.ExecutionContext
+): Promise<string> {
+  const response = await twitterFetch(context, {
+    url: apiUrl("/2/users/me"),
+    method: "GET",
+  });
+  const userId = response.body?.data?.id;
+  return coda.ensureExists(userId, "Authenticated user not found.");
+}
+
 pack.setSystemAuthentication({
   type: coda.AuthenticationType.HeaderBearerToken,
 });
@@ -54,6 +226,27 @@ const OAuthScopesReadWrite = [
   "bookmark.write",
   "like.write",
 ];
+// autocompleteFollowing needs this wherever a user can be picked.
+const OAuthScopesFollowsRead = ["follows.read"];
+// Everything the read-only sync tables need beyond the default connection. They all ask
+// for the same scopes so that connecting an account for one table covers the others.
+const OAuthScopesSyncRead = [
+  ...OAuthScopesRead,
+  ...OAuthScopesFollowsRead,
+  "like.read",
+  "list.read",
+];
+const OAuthScopesLists = ["list.read", "list.write"];
+const OAuthScopesSpaces = ["space.read"];
+const OAuthScopesDirectMessages = ["dm.read", "dm.write"];
+const OAuthScopesRelationships = [
+  "follows.read",
+  "follows.write",
+  "block.read",
+  "block.write",
+  "mute.read",
+  "mute.write",
+];
 
 pack.setUserAuthentication({
   type: coda.AuthenticationType.OAuth2,
@@ -66,22 +259,37 @@ pack.setUserAuthentication({
 
 // schemas + types
 interface ReferencedTweet {
-  type: any;
+  type: "retweeted" | "quoted" | "replied_to";
   id: string;
 }
 
 interface Attachment {
   media_keys: any[];
+  poll_ids?: string[];
 }
 
 interface Coordinate {
   type: string;
+  // In [longitude, latitude] order.
   coordinates: number[];
-  placeId: string;
 }
 
 interface TwitterGeo {
-  coordinates: Coordinate;
+  coordinates?: Coordinate;
+  place_id?: string;
+}
+
+interface TwitterPlace {
+  id: string;
+  full_name: string;
+  name?: string;
+  country?: string;
+  country_code?: string;
+  place_type?: string;
+  geo?: {
+    // In [west, south, east, north] order.
+    bbox?: number[];
+  };
 }
 
 interface PublicMetrics {
@@ -91,6 +299,55 @@ interface PublicMetrics {
   quote_count: number;
 }
 
+// Only returned to the author of a tweet.
+interface OwnerMetrics {
+  impression_count?: number;
+  url_link_clicks?: number;
+  user_profile_clicks?: number;
+}
+
+interface TwitterEntity {
+  start: number;
+  end: number;
+}
+
+interface TwitterUrlEntity extends TwitterEntity {
+  url: string;
+  expanded_url?: string;
+  display_url?: string;
+  title?: string;
+  description?: string;
+}
+
+interface TwitterMentionEntity extends TwitterEntity {
+  username: string;
+  id?: string;
+}
+
+interface TwitterTagEntity extends TwitterEntity {
+  tag: string;
+}
+
+interface TwitterNamedEntity extends TwitterEntity {
+  // e.g. "Person", "Place", "Product" or "Organization".
+  type: string;
+  normalized_text: string;
+  probability: number;
+}
+
+interface TwitterEntities {
+  annotations?: TwitterNamedEntity[];
+  urls?: TwitterUrlEntity[];
+  mentions?: TwitterMentionEntity[];
+  hashtags?: TwitterTagEntity[];
+  cashtags?: TwitterTagEntity[];
+}
+
+interface TwitterContextAnnotation {
+  domain: { id: string; name: string; description?: string };
+  entity: { id: string; name: string; description?: string };
+}
+
 interface TwitterTweet {
   id: string;
   text: string;
@@ -102,6 +359,20 @@ interface TwitterTweet {
   attachments: Attachment;
   geo: TwitterGeo;
   public_metrics: PublicMetrics;
+  non_public_metrics?: OwnerMetrics;
+  organic_metrics?: OwnerMetrics;
+  entities?: TwitterEntities;
+  context_annotations?: TwitterContextAnnotation[];
+  lang?: string;
+  source?: string;
+  possibly_sensitive?: boolean;
+  reply_settings?: "everyone" | "mentionedUsers" | "following";
+  edit_history_tweet_ids?: string[];
+  edit_controls?: {
+    edits_remaining: number;
+    is_edit_eligible: boolean;
+    editable_until: string;
+  };
 }
 
 interface TwitterUser {
@@ -131,17 +402,57 @@ interface TwitterMedia {
   url?: string;
   preview_image_url?: string;
   variants?: TwitterMediaVariant[];
+  alt_text?: string;
+  width?: number;
+  height?: number;
+  duration_ms?: number;
+  public_metrics?: { view_count?: number };
+}
+
+interface TwitterPollOption {
+  position: number;
+  label: string;
+  votes: number;
+}
+
+interface TwitterPoll {
+  id: string;
+  options: TwitterPollOption[];
+  voting_status?: "open" | "closed";
+  end_datetime?: string;
+  duration_minutes?: number;
+}
+
+interface TwitterList {
+  id: string;
+  name: string;
+  description?: string;
+  created_at?: string;
+  follower_count?: number;
+  member_count?: number;
+  private?: boolean;
+  owner_id?: string;
 }
 
-const CommonTweetFields = "created_at,conversation_id,geo,public_metrics";
-const CommonTweetExpansions = "author_id,attachments.media_keys";
-const CommonTweetMediaFields = "url,media_key,type,preview_image_url,variants";
+const CommonTweetFields =
+  "created_at,conversation_id,in_reply_to_user_id,referenced_tweets,geo,public_metrics,entities,context_annotations,lang,source,possibly_sensitive,reply_settings,edit_history_tweet_ids,edit_controls";
+const CommonTweetExpansions =
+  "author_id,attachments.media_keys,attachments.poll_ids,geo.place_id,referenced_tweets.id,referenced_tweets.id.author_id";
+const CommonTweetMediaFields =
+  "url,media_key,type,preview_image_url,variants,alt_text,width,height,duration_ms,public_metrics";
+const CommonTweetPollFields = "duration_minutes,end_datetime,voting_status";
+const CommonTweetPlaceFields =
+  "full_name,name,country,country_code,place_type,geo";
 const CommonTweetUserFields =
   "description,location,profile_image_url,url,verified,username,public_metrics,created_at,protected";
 const UserLookupFields = CommonTweetUserFields;
 
 const CommonUserExpansions = "pinned_tweet_id";
 
+const CommonListFields =
+  "created_at,description,follower_count,member_count,private,owner_id";
+const CommonListExpansions = "owner_id";
+
 const userSchema = coda.makeObjectSchema({
   type: coda.ValueType.Object,
   idProperty: "id",
@@ -173,6 +484,11 @@ const userSchema = coda.makeObjectSchema({
     tweetCount: { type: coda.ValueType.Number, fromKey: "tweet_count" },
     listedCount: { type: coda.ValueType.Number, fromKey: "listed_count" },
     protected: { type: coda.ValueType.Boolean },
+    status: {
+      type: coda.ValueType.String,
+      description:
+        "Whether the user could be loaded, e.g. 'Suspended' or 'Not found' in batch lookups.",
+    },
     cardTitle: { type: coda.ValueType.String },
   },
   featuredProperties: [
@@ -211,6 +527,14 @@ const followerSchema = coda.makeObjectSchema({
     sourceUserId: { type: coda.ValueType.String },
   },
 });
+const blockedUserSchema = coda.makeObjectSchema({
+  ...userSchema,
+  identity: { name: "BlockedUser" },
+});
+const mutedUserSchema = coda.makeObjectSchema({
+  ...userSchema,
+  identity: { name: "MutedUser" },
+});
 const followingSchema = coda.makeObjectSchema({
   ...userSchema,
   identity: { name: "FollowingUser" },
@@ -220,6 +544,16 @@ const followingSchema = coda.makeObjectSchema({
   },
 });
 
+const mediaVariantSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  displayProperty: "url",
+  properties: {
+    url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
+    contentType: { type: coda.ValueType.String, fromKey: "content_type" },
+    bitRate: { type: coda.ValueType.Number, fromKey: "bit_rate" },
+  },
+});
+
 const mediaSchema = coda.makeObjectSchema({
   type: coda.ValueType.Object,
   idProperty: "mediaKey",
@@ -246,11 +580,208 @@ const mediaSchema = coda.makeObjectSchema({
       fromKey: "videoUrl",
       codaType: coda.ValueHintType.Embed,
     },
+    variants: { type: coda.ValueType.Array, items: mediaVariantSchema },
+    altText: { type: coda.ValueType.String, fromKey: "alt_text" },
+    width: { type: coda.ValueType.Number },
+    height: { type: coda.ValueType.Number },
+    durationMs: { type: coda.ValueType.Number, fromKey: "duration_ms" },
+    viewCount: { type: coda.ValueType.Number, fromKey: "view_count" },
   },
   featuredProperties: ["mediaKey", "type", "imageUrl"],
 });
 
-const commonTweetSchema: coda.ObjectSchemaDefinition<any, any> = {
+const mediaGallerySchema = coda.makeObjectSchema({
+  ...mediaSchema,
+  identity: { name: "Media" },
+  properties: {
+    ...mediaSchema.properties,
+    tweetId: { type: coda.ValueType.String },
+    tweetUrl: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.Url,
+    },
+    tweetCreatedAt: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.DateTime,
+    },
+    author: { ...userSchema },
+  },
+  featuredProperties: ["imageUrl", "type", "altText", "tweetUrl"],
+  imageProperty: "imageUrl",
+  snippetProperty: "altText",
+  linkProperty: "tweetUrl",
+});
+
+const listSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  idProperty: "id",
+  displayProperty: "name",
+  identity: {
+    name: "List",
+  },
+  properties: {
+    id: { type: coda.ValueType.String },
+    name: { type: coda.ValueType.String },
+    description: { type: coda.ValueType.String },
+    createdAt: {
+      type: coda.ValueType.String,
+      fromKey: "created_at",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    followerCount: { type: coda.ValueType.Number, fromKey: "follower_count" },
+    memberCount: { type: coda.ValueType.Number, fromKey: "member_count" },
+    private: { type: coda.ValueType.Boolean },
+    owner: { ...userSchema },
+    url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
+  },
+  featuredProperties: ["name", "description", "owner", "memberCount"],
+  snippetProperty: "description",
+  subtitleProperties: [
+    {
+      property: "memberCount",
+      label: `${coda.PropertyLabelValueTemplate} members`,
+    },
+    {
+      property: "followerCount",
+      label: `${coda.PropertyLabelValueTemplate} followers`,
+    },
+  ],
+  linkProperty: "url",
+});
+
+const userListSchema = coda.makeObjectSchema({
+  ...listSchema,
+  identity: { name: "UserList" },
+  properties: {
+    ...listSchema.properties,
+    // Either "owned" or "followed".
+    relationship: { type: coda.ValueType.String },
+    sourceUserId: { type: coda.ValueType.String },
+  },
+});
+
+const listMemberSchema = coda.makeObjectSchema({
+  ...userSchema,
+  identity: { name: "ListMember" },
+  properties: {
+    ...userSchema.properties,
+    listId: { type: coda.ValueType.String },
+  },
+});
+
+const pollSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  displayProperty: "id",
+  properties: {
+    id: { type: coda.ValueType.String },
+    options: {
+      type: coda.ValueType.Array,
+      items: coda.makeObjectSchema({
+        type: coda.ValueType.Object,
+        displayProperty: "label",
+        properties: {
+          position: { type: coda.ValueType.Number },
+          label: { type: coda.ValueType.String },
+          votes: { type: coda.ValueType.Number },
+        },
+      }),
+    },
+    totalVotes: { type: coda.ValueType.Number },
+    // Either "open" or "closed".
+    votingStatus: { type: coda.ValueType.String, fromKey: "voting_status" },
+    endDatetime: {
+      type: coda.ValueType.String,
+      fromKey: "end_datetime",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    durationMinutes: {
+      type: coda.ValueType.Number,
+      fromKey: "duration_minutes",
+    },
+  },
+  featuredProperties: ["options", "votingStatus", "endDatetime"],
+});
+
+const placeSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  displayProperty: "fullName",
+  properties: {
+    id: { type: coda.ValueType.String },
+    fullName: { type: coda.ValueType.String, fromKey: "full_name" },
+    name: { type: coda.ValueType.String },
+    country: { type: coda.ValueType.String },
+    countryCode: { type: coda.ValueType.String, fromKey: "country_code" },
+    // e.g. "city", "admin" or "poi".
+    placeType: { type: coda.ValueType.String, fromKey: "place_type" },
+    boundingBox: coda.makeObjectSchema({
+      type: coda.ValueType.Object,
+      properties: {
+        west: { type: coda.ValueType.Number },
+        south: { type: coda.ValueType.Number },
+        east: { type: coda.ValueType.Number },
+        north: { type: coda.ValueType.Number },
+      },
+    }),
+    // Only set when the tweet was tagged with an exact location.
+    latitude: { type: coda.ValueType.Number },
+    longitude: { type: coda.ValueType.Number },
+  },
+  featuredProperties: ["fullName", "country", "placeType"],
+});
+
+const mentionSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  displayProperty: "username",
+  properties: {
+    username: { type: coda.ValueType.String },
+    userId: { type: coda.ValueType.String, fromKey: "id" },
+    url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
+  },
+});
+
+const urlEntitySchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  displayProperty: "displayUrl",
+  properties: {
+    url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
+    expandedUrl: {
+      type: coda.ValueType.String,
+      fromKey: "expanded_url",
+      codaType: coda.ValueHintType.Url,
+    },
+    displayUrl: { type: coda.ValueType.String, fromKey: "display_url" },
+    title: { type: coda.ValueType.String },
+    description: { type: coda.ValueType.String },
+  },
+});
+
+const topicSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  displayProperty: "entity",
+  properties: {
+    // The kind of topic, e.g. "Brand" or "Sports Team".
+    domain: { type: coda.ValueType.String },
+    domainId: { type: coda.ValueType.String },
+    entity: { type: coda.ValueType.String },
+    entityId: { type: coda.ValueType.String },
+  },
+});
+
+const namedEntitySchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  displayProperty: "text",
+  properties: {
+    type: { type: coda.ValueType.String },
+    text: { type: coda.ValueType.String },
+    probability: {
+      type: coda.ValueType.Number,
+      codaType: coda.ValueHintType.Percent,
+    },
+  },
+});
+
+// The properties shared by every tweet, including the ones nested inside other tweets.
+const baseTweetSchema: coda.ObjectSchemaDefinition<any, any> = {
   type: coda.ValueType.Object,
   idProperty: "id",
   displayProperty: "text",
@@ -275,9 +806,76 @@ const commonTweetSchema: coda.ObjectSchemaDefinition<any, any> = {
     retweetCount: { type: coda.ValueType.Number, fromKey: "retweet_count" },
     replyCount: { type: coda.ValueType.Number, fromKey: "reply_count" },
     quoteCount: { type: coda.ValueType.Number, fromKey: "quote_count" },
+    impressionCount: {
+      type: coda.ValueType.Number,
+      fromKey: "impression_count",
+      description:
+        "Only synced by ProfileTweets, for your own tweets from the last 30 days.",
+    },
+    urlLinkClicks: {
+      type: coda.ValueType.Number,
+      fromKey: "url_link_clicks",
+      description:
+        "Only synced by ProfileTweets, for your own tweets from the last 30 days.",
+    },
+    userProfileClicks: {
+      type: coda.ValueType.Number,
+      fromKey: "user_profile_clicks",
+      description:
+        "Only synced by ProfileTweets, for your own tweets from the last 30 days.",
+    },
+    engagementRate: {
+      type: coda.ValueType.Number,
+      codaType: coda.ValueHintType.Percent,
+      description:
+        "Likes, retweets, replies, quotes and clicks as a share of impressions.",
+    },
     media: { type: coda.ValueType.Array, items: mediaSchema },
+    poll: pollSchema,
+    place: placeSchema,
     url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
-    // referencedTweets: {type: coda.ValueType.Array, items: referencedTweetSchema, fromKey: 'referenced_tweets'},
+    mentions: { type: coda.ValueType.Array, items: mentionSchema },
+    hashtags: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+    },
+    urls: { type: coda.ValueType.Array, items: urlEntitySchema },
+    cashtags: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+    },
+    topics: { type: coda.ValueType.Array, items: topicSchema },
+    namedEntities: { type: coda.ValueType.Array, items: namedEntitySchema },
+    // A BCP47 language tag, e.g. "en".
+    lang: { type: coda.ValueType.String },
+    // The app the tweet was posted from, e.g. "Twitter Web App".
+    source: { type: coda.ValueType.String },
+    possiblySensitive: {
+      type: coda.ValueType.Boolean,
+      fromKey: "possibly_sensitive",
+    },
+    // Who can reply: "everyone", "mentionedUsers" or "following".
+    replySettings: { type: coda.ValueType.String, fromKey: "reply_settings" },
+    editHistoryTweetIds: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      fromKey: "edit_history_tweet_ids",
+    },
+    editsRemaining: { type: coda.ValueType.Number, fromKey: "edits_remaining" },
+    isEditEligible: {
+      type: coda.ValueType.Boolean,
+      fromKey: "is_edit_eligible",
+    },
+    editableUntil: {
+      type: coda.ValueType.String,
+      fromKey: "editable_until",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    status: {
+      type: coda.ValueType.String,
+      description:
+        "Whether the tweet could be fully loaded, e.g. 'Author unavailable' when its author is suspended.",
+    },
 
     cardTitle: { type: coda.ValueType.String },
   },
@@ -293,11 +891,41 @@ const commonTweetSchema: coda.ObjectSchemaDefinition<any, any> = {
   linkProperty: "url",
 };
 
+// Referenced tweets are only resolved one level deep, so they don't have their own
+// referenced tweets.
+const referencedTweetSchema = coda.makeObjectSchema(baseTweetSchema);
+
+const commonTweetSchema: coda.ObjectSchemaDefinition<any, any> = {
+  ...baseTweetSchema,
+  properties: {
+    ...baseTweetSchema.properties,
+    quotedTweet: referencedTweetSchema,
+    retweetedTweet: referencedTweetSchema,
+    repliedToTweet: referencedTweetSchema,
+  },
+};
+
 const tweetSchema = coda.makeObjectSchema(commonTweetSchema);
 
+const conversationTweetSchema = coda.makeObjectSchema({
+  ...commonTweetSchema,
+  displayProperty: "url",
+  identity: { name: "ConversationTweet" },
+  properties: {
+    ...commonTweetSchema.properties,
+    parentTweetId: { type: coda.ValueType.String },
+    // How many replies deep this tweet is from the root tweet, which has a depth of 0.
+    depth: { type: coda.ValueType.Number },
+    rootTweetId: { type: coda.ValueType.String },
+  },
+});
+
 interface TweetAnnotationInfo {
   users?: TwitterUser[];
   media?: TwitterMedia[];
+  tweets?: TwitterTweet[];
+  polls?: TwitterPoll[];
+  places?: TwitterPlace[];
 }
 
 interface UserPublicMetrics {
@@ -311,43 +939,185 @@ interface UserAnnotationInfo {
   pinnedTweetId?: string;
 }
 
-function parseTweetText(text: string): string {
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function makeLink(url: string, text: string): string {
+  return `<a href='${escapeHtml(url)}'>${escapeHtml(text)}</a>`;
+}
+
+function mentionUrl(username: string): string {
+  return `https://twitter.com/${username}`;
+}
+
+function searchUrl(query: string): string {
+  return coda.withQueryParams("https://twitter.com/search", { q: query });
+}
+
+// Tweet text comes back with `&`, `<` and `>` escaped.
+function unescapeTweetText(text: string): string {
   return text
-    .replace(/\n/g, "<br/>")
-    .replace(/&amp;/g, "&")
-    .replace(/(https:\/\/t\.co.+)/g, "<a href='$1'>$1</a>");
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// How tweet text is written out: as HTML for the tweet schema, or as Markdown when
+// unrolling a thread.
+interface TextFormat {
+  escape: (text: string) => string;
+  link: (url: string, text: string) => string;
+}
+
+const HtmlTextFormat: TextFormat = {
+  escape: (text) => escapeHtml(text).replace(/\n/g, "<br/>"),
+  link: makeLink,
+};
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>#|~]/g, "\\$&");
+}
+
+const MarkdownTextFormat: TextFormat = {
+  // A trailing double space keeps line breaks within a paragraph.
+  escape: (text) => escapeMarkdown(text).replace(/\n/g, "  \n"),
+  link: (url, text) =>
+    `[${escapeMarkdown(text)}](${url
+      .replace(/\(/g, "%28")
+      .replace(/\)/g, "%29")
+      .replace(/\s/g, "%20")})`,
+};
+
+// Entity indices refer to the unescaped text and count code points rather than UTF-16
+// characters.
+function parseTweetText(
+  text: string,
+  entities: TwitterEntities = {},
+  format: TextFormat = HtmlTextFormat
+): string {
+  const characters = Array.from(unescapeTweetText(text));
+  const replacements = [
+    ...(entities.mentions ?? []).map(({ start, end, username }) => ({
+      start,
+      end,
+      rendered: format.link(mentionUrl(username), `@${username}`),
+    })),
+    ...(entities.hashtags ?? []).map(({ start, end, tag }) => ({
+      start,
+      end,
+      rendered: format.link(searchUrl(`#${tag}`), `#${tag}`),
+    })),
+    ...(entities.cashtags ?? []).map(({ start, end, tag }) => ({
+      start,
+      end,
+      rendered: format.link(searchUrl(`$${tag}`), `$${tag}`),
+    })),
+    ...(entities.urls ?? []).map(
+      ({ start, end, url, expanded_url, display_url }) => ({
+        start,
+        end,
+        rendered: format.link(expanded_url ?? url, display_url ?? url),
+      })
+    ),
+  ].sort((a, b) => a.start - b.start);
+
+  const escapeSegment = (start: number, end?: number) =>
+    format.escape(characters.slice(start, end).join(""));
+  let output = "";
+  let cursor = 0;
+  for (const { start, end, rendered } of replacements) {
+    // Skip any entities that overlap with one we've already rendered.
+    if (start < cursor) {
+      continue;
+    }
+    output += escapeSegment(cursor, start) + rendered;
+    cursor = end;
+  }
+  return output + escapeSegment(cursor);
+}
+
+// Videos come with an m3u8 playlist and several mp4s, so pick the sharpest mp4.
+function getBestVideoVariant(
+  variants: TwitterMediaVariant[] = []
+): TwitterMediaVariant | undefined {
+  return variants
+    .filter((v) => v.content_type === "video/mp4")
+    .sort((a, b) => (b.bit_rate ?? 0) - (a.bit_rate ?? 0))[0];
 }
 
 function parseMedia({
   url,
   preview_image_url,
   variants,
+  public_metrics,
   ...rest
 }: TwitterMedia) {
   return {
     ...rest,
     url: url ?? preview_image_url,
-    videoUrl: variants?.[0].url,
+    videoUrl: getBestVideoVariant(variants)?.url,
+    variants,
+    ...public_metrics,
   };
 }
 
-function parseTweet(
-  { public_metrics, attachments, text, ...tweetInfo }: TwitterTweet,
-  annotationInfo: TweetAnnotationInfo
-) {
-  const { users, media } = annotationInfo;
-  const mediaKeys = attachments?.media_keys;
-  const author = coda.ensureExists(
-    users?.find((u) => u.id === tweetInfo.author_id),
-    `author not found for tweet ${tweetInfo.id}`
-  );
-  const mediaForTweet = media?.filter((m) => mediaKeys?.includes(m.media_key));
-  const url = author.username
-    ? "https://twitter.com/" + author.username + "/status/" + tweetInfo.id
-    : undefined;
-  const transformedText = parseTweetText(text);
+function parsePoll({ options, ...rest }: TwitterPoll) {
+  return {
+    ...rest,
+    options: [...options].sort((a, b) => a.position - b.position),
+    totalVotes: options.reduce((total, option) => total + option.votes, 0),
+  };
+}
+
+function parsePlace(geo: TwitterGeo, place?: TwitterPlace) {
+  const { geo: placeGeo, ...placeInfo } = place ?? {};
+  const [west, south, east, north] = placeGeo?.bbox ?? [];
+  const [longitude, latitude] = geo.coordinates?.coordinates ?? [];
+  return {
+    id: geo.place_id,
+    ...placeInfo,
+    boundingBox: placeGeo?.bbox ? { west, south, east, north } : undefined,
+    latitude,
+    longitude,
+  };
+}
+
+function parseTweet(
+  {
+    public_metrics,
+    attachments,
+    text,
+    referenced_tweets,
+    entities,
+    geo,
+    context_annotations,
+    edit_controls,
+    ...tweetInfo
+  }: TwitterTweet,
+  annotationInfo: TweetAnnotationInfo
+) {
+  const { users, media, tweets, polls, places } = annotationInfo;
+  const mediaKeys = attachments?.media_keys;
+  // Authors that are suspended or otherwise unavailable are left out of `includes`.
+  const author = users?.find((u) => u.id === tweetInfo.author_id);
+  const mediaForTweet = media?.filter((m) => mediaKeys?.includes(m.media_key));
+  // Tweets can only have a single poll.
+  const poll = polls?.find((p) => attachments?.poll_ids?.includes(p.id));
+  const place = places?.find((p) => p.id === geo?.place_id);
+  const url = author?.username
+    ? "https://twitter.com/" + author.username + "/status/" + tweetInfo.id
+    : "https://twitter.com/i/web/status/" + tweetInfo.id;
+  const transformedText = parseTweetText(text, entities);
 
-  let cardTitle = `${author.name} (@${author.username})`;
+  let cardTitle = author
+    ? `${author.name} (@${author.username})`
+    : "Unknown author";
 
   const maybeInReplyToUser = users?.find(
     (u) => u.id === tweetInfo.in_reply_to_user_id
@@ -356,13 +1126,55 @@ function parseTweet(
     cardTitle += " replied to @" + maybeInReplyToUser.username;
   }
 
+  const findReferencedTweet = (type: ReferencedTweet["type"]) => {
+    const referencedTweetId = referenced_tweets?.find(
+      (t) => t.type === type
+    )?.id;
+    const referencedTweet = tweets?.find((t) => t.id === referencedTweetId);
+    return referencedTweet
+      ? parseTweet(referencedTweet, { users, media, polls, places })
+      : undefined;
+  };
+  const retweetedTweet = findReferencedTweet("retweeted");
+  if (retweetedTweet?.author) {
+    cardTitle += " retweeted @" + retweetedTweet.author.username;
+  }
+
   return {
     ...tweetInfo,
     text: transformedText,
     ...public_metrics,
-    author: parseUser(author),
+    ...edit_controls,
+    author: author ? parseUser(author) : undefined,
     media: mediaForTweet?.map(parseMedia),
+    poll: poll ? parsePoll(poll) : undefined,
+    place: geo ? parsePlace(geo, place) : undefined,
     url,
+    quotedTweet: findReferencedTweet("quoted"),
+    retweetedTweet,
+    repliedToTweet: findReferencedTweet("replied_to"),
+    mentions: entities?.mentions?.map(({ username, id }) => ({
+      username,
+      id,
+      url: mentionUrl(username),
+    })),
+    hashtags: entities?.hashtags?.map(({ tag }) => tag),
+    urls: entities?.urls,
+    cashtags: entities?.cashtags?.map(({ tag }) => tag),
+    topics: context_annotations?.map(({ domain, entity }) => ({
+      domain: domain.name,
+      domainId: domain.id,
+      entity: entity.name,
+      entityId: entity.id,
+    })),
+    namedEntities: entities?.annotations?.map(
+      ({ type, normalized_text, probability }) => ({
+        type,
+        text: normalized_text,
+        probability,
+      })
+    ),
+    status: (author ? "Available" : "Author unavailable") as ItemStatus,
     cardTitle,
   };
 }
@@ -386,6 +1198,7 @@ function parseUser(
     ...userInfo,
     pinnedTweetId,
     ...public_metrics,
+    status: "Available" as ItemStatus,
     cardTitle,
   };
 }
@@ -397,49 +1210,196 @@ const TweetUrlRegex =
   /^.*twitter\.com\/@?\w+\/status\/(\d+)\??[^\/]*\/?(\?.*)?$/;
 const TwitterHandleRegex = /^\w+$/;
 
-async function getTweet(
-  [tweetIdOrUrl]: string[],
-  context: coda.ExecutionContext
-) {
+function parseTweetId(tweetIdOrUrl: string): string {
   const maybeTweetIdMatch = tweetIdOrUrl.match(TweetUrlRegex)?.[1];
   const tweetId = (maybeTweetIdMatch ?? tweetIdOrUrl).trim();
 
   if (Number.isNaN(Number(tweetId))) {
     throw new coda.UserVisibleError("Invalid tweet id");
   }
+  return tweetId;
+}
+
+// Twitter only returns owner metrics for the connected user's own tweets from the last
+// 30 days, and asking for them on any other tweet fails the whole request. So they're
+// fetched separately for just those tweets once the tweets themselves are loaded.
+const OwnerMetricsTweetFields = "non_public_metrics,organic_metrics";
+const OwnerMetricsMaxAgeMs = 30 * 24 * 60 * 60 * 1000;
+
+// Returns an empty string when there's no connected account, e.g. under app-only auth.
+async function tryGetAuthenticatedUserId(
+  context: coda.ExecutionContext
+): Promise<string> {
+  try {
+    return await getAuthenticatedUserId(context);
+  } catch (error) {
+    return "";
+  }
+}
+
+// `getUserId` is only called when there are recent tweets, so that older tweets don't
+// cost a request.
+async function getOwnerMetrics(
+  tweets: TwitterTweet[],
+  getUserId: () => Promise<string>,
+  context: coda.ExecutionContext
+): Promise<Map<string, OwnerMetrics>> {
+  const metricsByTweetId = new Map<string, OwnerMetrics>();
+  const recentTweets = tweets.filter(
+    (t) => Date.now() - new Date(t.created_at).getTime() < OwnerMetricsMaxAgeMs
+  );
+  if (!recentTweets.length) {
+    return metricsByTweetId;
+  }
+
+  const userId = await getUserId();
+  if (!userId) {
+    return metricsByTweetId;
+  }
+  const ownedTweetIds = recentTweets
+    .filter((t) => t.author_id === userId)
+    .map((t) => t.id);
+  if (!ownedTweetIds.length) {
+    return metricsByTweetId;
+  }
+
+  try {
+    const response = await twitterFetch(context, {
+      method: "GET",
+      url: apiUrl("/2/tweets", {
+        ids: ownedTweetIds.join(","),
+        "tweet.fields": OwnerMetricsTweetFields,
+      }),
+    });
+    for (const tweet of (response.body?.data ?? []) as TwitterTweet[]) {
+      metricsByTweetId.set(tweet.id, {
+        ...tweet.organic_metrics,
+        ...tweet.non_public_metrics,
+      });
+    }
+  } catch (error) {
+    if (error instanceof TwitterRateLimitError) {
+      throw error;
+    }
+    console.log(`Skipping owner metrics: ${error.message}`);
+  }
+  return metricsByTweetId;
+}
+
+function parseOwnerMetrics(
+  { public_metrics }: TwitterTweet,
+  metrics?: OwnerMetrics
+) {
+  if (!metrics) {
+    return {};
+  }
+  const { impression_count, url_link_clicks, user_profile_clicks } = metrics;
+  const engagements =
+    (public_metrics?.like_count ?? 0) +
+    (public_metrics?.retweet_count ?? 0) +
+    (public_metrics?.reply_count ?? 0) +
+    (public_metrics?.quote_count ?? 0) +
+    (url_link_clicks ?? 0) +
+    (user_profile_clicks ?? 0);
+  return {
+    impression_count,
+    url_link_clicks,
+    user_profile_clicks,
+    engagementRate: impression_count
+      ? engagements / impression_count
+      : undefined,
+  };
+}
+
+async function getTweet(
+  [tweetIdOrUrl]: string[],
+  context: coda.ExecutionContext
+) {
+  const tweetId = parseTweetId(tweetIdOrUrl);
 
   const params = {
     expansions: CommonTweetExpansions,
     "tweet.fields": CommonTweetFields,
     "user.fields": CommonTweetUserFields,
     "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
   };
   const url = apiUrl(`/2/tweets/${tweetId}`, params);
-  const response = await context.fetcher.fetch({ method: "GET", url });
+  const response = await twitterFetch(context, { method: "GET", url });
 
-  const { data, includes } = response.body;
+  const { includes } = response.body;
+  const data = ensureFound<TwitterTweet>(
+    response.body,
+    `Tweet ${tweetId} was not found.`
+  );
   const annotationInfo = includes;
+  // No owner-only metrics here, since these formulas run without a connected account.
   return parseTweet(data, annotationInfo);
 }
 
-async function getUser([inputHandle]: any[], context: coda.ExecutionContext) {
-  const params = {
-    "user.fields": UserLookupFields,
-    expansions: CommonUserExpansions,
-  };
-
+function parseHandle(inputHandle: string): string {
   const maybeHandleMatch = inputHandle.match(TweetUserUrlRegex)?.[1];
   const handle = (maybeHandleMatch ?? inputHandle).replace(/@/g, "").trim();
   if (!TwitterHandleRegex.test(handle)) {
     throw new coda.UserVisibleError("Invalid handle");
   }
+  return handle;
+}
+
+async function getUserIdByHandle(
+  inputHandle: string,
+  context: coda.ExecutionContext
+): Promise<string> {
+  const handle = parseHandle(inputHandle);
+  const response = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl(`/2/users/by/username/${handle}`),
+  });
+  return ensureFound<TwitterUser>(
+    response.body,
+    `User @${handle} was not found.`
+  ).id;
+}
+
+// Anything that takes a user accepts an id, a handle, a profile URL or "me" for the
+// authenticated user. Ids take precedence over handles that are only digits.
+async function resolveUserId(
+  userIdOrHandle: string,
+  context: coda.ExecutionContext
+): Promise<string> {
+  const input = userIdOrHandle.trim();
+  if (input.toLowerCase() === "me") {
+    try {
+      return await getAuthenticatedUserId(context);
+    } catch (error) {
+      throw new coda.UserVisibleError(
+        'Connect a Twitter account to use "me" as the user.'
+      );
+    }
+  }
+  if (/^\d+$/.test(input)) {
+    return input;
+  }
+  return getUserIdByHandle(input, context);
+}
+
+async function getUser([inputHandle]: any[], context: coda.ExecutionContext) {
+  const params = {
+    "user.fields": UserLookupFields,
+    expansions: CommonUserExpansions,
+  };
 
+  const handle = parseHandle(inputHandle);
   const basePath = `/2/users/by/username/${handle}`;
   let url = apiUrl(basePath, params);
 
-  const response = await context.fetcher.fetch({ method: "GET", url });
+  const response = await twitterFetch(context, { method: "GET", url });
 
-  const { data } = response.body;
+  const data = ensureFound<TwitterUser>(
+    response.body,
+    `User @${handle} was not found.`
+  );
   return parseUser(data);
 }
 
@@ -457,52 +1417,330 @@ function parseDateParameter(date?: Date): [string, string] {
   return [startTime, endTime];
 }
 
+// Incremental syncs only fetch tweets newer than the newest one from the last sync, with
+// a full resync every week so that deleted tweets eventually drop out of the table.
+const FullResyncIntervalMs = 7 * 24 * 60 * 60 * 1000;
+
+// How many of the newest tweets are remembered, so that an incremental sync still stops
+// if the newest one has since been unliked or unbookmarked.
+const SyncedTweetMarkerCount = 5;
+
+interface TweetSyncCheckpoint {
+  newestTweetId?: string;
+  // The first tweets of the last sync's first page, comma separated.
+  recentTweetIds?: string;
+  lastFullSyncAt: string;
+  // Set when the last sync stopped early at the rate limit, so the next one resumes there.
+  resumeUrl?: string;
+  resumeStopAtTweetIds?: string;
+}
+
+function getTweetSyncCheckpoint(
+  context: coda.SyncExecutionContext
+): TweetSyncCheckpoint | undefined {
+  const incrementalContinuation =
+    context.sync.previousCompletion?.incrementalContinuation;
+  if (!incrementalContinuation) {
+    return undefined;
+  }
+  return {
+    newestTweetId: incrementalContinuation.newestTweetId as string | undefined,
+    recentTweetIds: incrementalContinuation.recentTweetIds as
+      | string
+      | undefined,
+    lastFullSyncAt: incrementalContinuation.lastFullSyncAt as string,
+    resumeUrl: incrementalContinuation.resumeUrl as string | undefined,
+    resumeStopAtTweetIds: incrementalContinuation.resumeStopAtTweetIds as
+      | string
+      | undefined,
+  };
+}
+
+// Where a sync carries on from: its own continuation, or else the page the last sync
+// stopped at when it hit the rate limit.
+function getTweetSyncContinuation(
+  context: coda.SyncExecutionContext
+): coda.Continuation | undefined {
+  if (context.sync.continuation) {
+    return context.sync.continuation;
+  }
+  const checkpoint = getTweetSyncCheckpoint(context);
+  if (!checkpoint?.resumeUrl) {
+    return undefined;
+  }
+  const { newestTweetId, recentTweetIds, resumeStopAtTweetIds } = checkpoint;
+  return {
+    nextUrl: checkpoint.resumeUrl,
+    ...(newestTweetId ? { newestTweetId } : {}),
+    ...(recentTweetIds ? { recentTweetIds } : {}),
+    ...(resumeStopAtTweetIds ? { stopAtTweetIds: resumeStopAtTweetIds } : {}),
+    syncStartedAt: checkpoint.lastFullSyncAt,
+  };
+}
+
+// Runs a page of an incremental sync. If it hits the rate limit partway through, the
+// sync ends with the rows it has so far and the next scheduled sync picks up from the
+// same page, rather than the whole sync failing.
+async function resumableTweetSync(
+  context: coda.SyncExecutionContext,
+  syncPage: (
+    continuation: coda.Continuation | undefined
+  ) => Promise<coda.GenericSyncFormulaResult>
+): Promise<coda.GenericSyncFormulaResult> {
+  const continuation = getTweetSyncContinuation(context);
+  try {
+    return await syncPage(continuation);
+  } catch (error) {
+    if (!(error instanceof TwitterRateLimitError) || !continuation?.nextUrl) {
+      throw error;
+    }
+    console.log(`Resuming on the next sync: ${error.message}`);
+    const { newestTweetId, recentTweetIds, stopAtTweetIds } = continuation;
+    return {
+      result: [],
+      completion: {
+        incrementalContinuation: {
+          ...(newestTweetId ? { newestTweetId } : {}),
+          ...(recentTweetIds ? { recentTweetIds } : {}),
+          lastFullSyncAt: continuation.syncStartedAt,
+          resumeUrl: continuation.nextUrl,
+          ...(stopAtTweetIds ? { resumeStopAtTweetIds: stopAtTweetIds } : {}),
+        },
+      },
+    };
+  }
+}
+
+// Returned from the first page of an incremental sync when it's time for a full resync.
+function maybeRequestFullResync(
+  context: coda.SyncExecutionContext
+): coda.GenericSyncFormulaResult | undefined {
+  const checkpoint = getTweetSyncCheckpoint(context);
+  if (
+    checkpoint &&
+    !getTweetSyncContinuation(context)?.nextUrl &&
+    Date.now() - new Date(checkpoint.lastFullSyncAt).getTime() >
+      FullResyncIntervalMs
+  ) {
+    return { result: [], completion: { hasIncompleteResults: true } };
+  }
+}
+
+// Tweet ids increase over time, so a longer id is always a newer tweet.
+function getNewerTweetId(a?: string, b?: string): string | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return a.length > b.length || (a.length === b.length && a > b) ? a : b;
+}
+
+// The tweets that end an incremental sync for endpoints that don't support since_id.
+// They're fixed when the sync starts, since its first page replaces the checkpoint's.
+function getSyncedTweetMarkers(
+  context: coda.SyncExecutionContext
+): string[] | undefined {
+  const stopAtTweetIds =
+    (getTweetSyncContinuation(context)?.stopAtTweetIds as string | undefined) ??
+    getTweetSyncCheckpoint(context)?.recentTweetIds;
+  return stopAtTweetIds?.split(",");
+}
+
+// Pages come back newest first, so the newest item of a sync is the first one on its
+// first page. For likes and bookmarks that's the most recently liked or bookmarked tweet,
+// which isn't necessarily the one with the largest id. `stopAtTweetIds` ends the sync
+// early for endpoints that don't support since_id, once a page reaches a tweet that's
+// already been synced.
+function makeTweetSyncResult<T extends { id: string }>(
+  context: coda.SyncExecutionContext,
+  results: T[],
+  nextUrl: string | undefined,
+  stopAtTweetIds?: string[]
+): coda.GenericSyncFormulaResult {
+  const continuation = getTweetSyncContinuation(context);
+  const checkpoint = getTweetSyncCheckpoint(context);
+  const isFirstPage = !continuation?.nextUrl;
+  const newestTweetId = isFirstPage
+    ? results[0]?.id ?? checkpoint?.newestTweetId
+    : (continuation.newestTweetId as string);
+  // Topped up with the previous markers when there are only a few new tweets.
+  const recentTweetIds = isFirstPage
+    ? Array.from(
+        new Set([
+          ...results.map((t) => t.id),
+          ...(checkpoint?.recentTweetIds?.split(",") ?? []),
+        ])
+      )
+        .slice(0, SyncedTweetMarkerCount)
+        .join(",")
+    : (continuation.recentTweetIds as string);
+  const lastFullSyncAt =
+    checkpoint?.lastFullSyncAt ??
+    (continuation?.syncStartedAt as string) ??
+    new Date().toISOString();
+
+  const reachedSyncedTweet = results.some((t) =>
+    stopAtTweetIds?.includes(t.id)
+  );
+  const markers = {
+    ...(newestTweetId ? { newestTweetId } : {}),
+    ...(recentTweetIds ? { recentTweetIds } : {}),
+  };
+  if (nextUrl && !reachedSyncedTweet) {
+    return {
+      result: results,
+      continuation: {
+        nextUrl,
+        ...markers,
+        ...(stopAtTweetIds?.length
+          ? { stopAtTweetIds: stopAtTweetIds.join(",") }
+          : {}),
+        syncStartedAt: lastFullSyncAt,
+      },
+    };
+  }
+  return {
+    result: results,
+    completion: {
+      incrementalContinuation: { ...markers, lastFullSyncAt },
+    },
+  };
+}
+
+// Applied once the sync checkpoint has been worked out from the whole page, so that tweets
+// outside the topic still count as synced.
+function filterSyncResultByTopic(
+  syncResult: coda.GenericSyncFormulaResult,
+  topic?: string
+): coda.GenericSyncFormulaResult {
+  const domain = topic?.trim().toLowerCase();
+  if (!domain) {
+    return syncResult;
+  }
+  return {
+    ...syncResult,
+    result: syncResult.result.filter((tweet) =>
+      tweet.topics?.some(
+        (t) => t.domain?.toLowerCase() === domain || t.domainId === domain
+      )
+    ),
+  };
+}
+
 async function getProfileTweets(
-  [userId, oldestTweetId, date, limit, newestTweetId]: any[],
-  context: coda.ExecutionContext,
+  [userIdOrHandle, oldestTweetId, date, limit, newestTweetId, topic]: any[],
+  context: coda.SyncExecutionContext,
   continuation: coda.Continuation | undefined
 ) {
+  const fullResync = maybeRequestFullResync(context);
+  if (fullResync) {
+    return fullResync;
+  }
+  const userId = await resolveUserId(userIdOrHandle, context);
   const [startTime, endTime] = parseDateParameter(date);
+  const syncedTweetId = getTweetSyncCheckpoint(context)?.newestTweetId;
+  const sinceTweetId = getNewerTweetId(oldestTweetId, syncedTweetId);
 
-  if (limit < 1 && limit > 25) {
+  if (limit < 1 || limit > 25) {
     throw new coda.UserVisibleError("Limit must be between 1 and 25.");
   }
 
-  // found using https://codeofaninja.com/tools/find-twitter-id/
-  // TODO: can this be automated if you're using user auth?
   const params = {
     expansions: CommonTweetExpansions,
     "tweet.fields": CommonTweetFields,
     "user.fields": CommonTweetUserFields,
     // for some reason preview_image_url not working?
     "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
     max_results: limit ? limit : 25,
     ...(newestTweetId ? { until_id: newestTweetId } : {}),
-    ...(oldestTweetId ? { since_id: oldestTweetId } : {}),
+    ...(sinceTweetId ? { since_id: sinceTweetId } : {}),
     ...(startTime ? { end_time: endTime, start_time: startTime } : {}),
   };
   const basePath = `/2/users/${userId}/tweets`;
-  let url = continuation
+  let url = continuation?.nextUrl
     ? (continuation.nextUrl as string)
     : apiUrl(basePath, params);
 
-  const response = await context.fetcher.fetch({ method: "GET", url });
+  const response = await twitterFetch(context, { method: "GET", url });
 
   const { data, includes } = response.body;
   const annotationInfo = includes;
-  const results = data?.map((rawTweet) => parseTweet(rawTweet, annotationInfo));
+  // Looked up at most once per sync and carried along in the continuation.
+  let authenticatedUserId = continuation?.authenticatedUserId as
+    | string
+    | undefined;
+  const ownerMetrics = await getOwnerMetrics(
+    data ?? [],
+    async () => {
+      if (authenticatedUserId === undefined) {
+        authenticatedUserId = await tryGetAuthenticatedUserId(context);
+      }
+      return authenticatedUserId;
+    },
+    context
+  );
+  const results = data?.map((rawTweet) => ({
+    ...parseTweet(rawTweet, annotationInfo),
+    ...parseOwnerMetrics(rawTweet, ownerMetrics.get(rawTweet.id)),
+  }));
   const nextUrl = nextUrlFromResponse(basePath, params, response);
-  if (!results) {
-    console.log("No data found: " + JSON.stringify(response, null, 2));
-  } else {
-    console.log(
-      `Found ${results.length} profile Tweets: ` +
-        JSON.stringify(response, null, 2)
-    );
+
+  // The limit only caps a full sync. An incremental sync follows every page back to the
+  // last synced tweet, since the checkpoint moves past any tweets it leaves out.
+  const syncResult = makeTweetSyncResult(
+    context,
+    results || [],
+    limit && !syncedTweetId ? undefined : nextUrl
+  );
+  if (syncResult.continuation && authenticatedUserId !== undefined) {
+    syncResult.continuation.authenticatedUserId = authenticatedUserId;
+  }
+  return filterSyncResultByTopic(syncResult, topic);
+}
+
+async function getMentions(
+  [userIdOrHandle, oldestTweetId, date, limit, newestTweetId]: any[],
+  context: coda.ExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const userId = await resolveUserId(userIdOrHandle, context);
+  const [startTime, endTime] = parseDateParameter(date);
+
+  if (limit < 1 || limit > 25) {
+    throw new coda.UserVisibleError("Limit must be between 1 and 25.");
   }
 
+  const params = {
+    expansions: CommonTweetExpansions,
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
+    max_results: limit ? limit : 25,
+    ...(newestTweetId ? { until_id: newestTweetId } : {}),
+    ...(oldestTweetId ? { since_id: oldestTweetId } : {}),
+    ...(startTime ? { end_time: endTime, start_time: startTime } : {}),
+  };
+  const basePath = `/2/users/${userId}/mentions`;
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const annotationInfo = includes;
+  const results = data?.map((rawTweet) => ({
+    ...parseTweet(rawTweet, annotationInfo),
+    mentionId: `${rawTweet.id}@${userId}`,
+    mentionedUserId: userId,
+  }));
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+
   if (limit) {
-    return { result: results };
+    return { result: results || [] };
   }
 
   return {
@@ -512,49 +1750,78 @@ async function getProfileTweets(
 }
 
 async function getLikedTweets(
-  [userId, lastTweetId, limit]: any[],
-  context: coda.ExecutionContext,
+  [userIdOrHandle, lastTweetId, limit]: any[],
+  context: coda.SyncExecutionContext,
   continuation: coda.Continuation | undefined
 ) {
+  const fullResync = maybeRequestFullResync(context);
+  if (fullResync) {
+    return fullResync;
+  }
+  const userId = await resolveUserId(userIdOrHandle, context);
   // Not currently accepted either.
   // const [startTime, endTime] = parseDateParameter(date);
-  // found using https://codeofaninja.com/tools/find-twitter-id/
-  // TODO: can this be automated if you're using user auth?
   const params = {
     expansions: CommonTweetExpansions,
     "tweet.fields": CommonTweetFields,
     "user.fields": CommonTweetUserFields,
     "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
     max_results: 25,
     // Apparently this is not accepted as a parameter lol
     // ...(lastTweetId ? { since_id: lastTweetId } : {}),
     // ...(startTime ? { end_time: endTime, start_time: startTime } : {}),
   };
   const basePath = `/2/users/${userId}/liked_tweets`;
-  let url = continuation
+  let url = continuation?.nextUrl
     ? (continuation.nextUrl as string)
     : apiUrl(basePath, params);
   // context.logger.info('continuation: ' + continuation);
 
-  const response = await context.fetcher.fetch({ method: "GET", url });
+  const response = await twitterFetch(context, { method: "GET", url });
 
   const { data, includes } = response.body;
   const annotationInfo = includes;
   const results = data?.map((rawTweet) => parseTweet(rawTweet, annotationInfo));
-  // Weird error here using structured builder to watch out for.
-  const skipContinuation = results?.map((t) => t.id).includes(lastTweetId);
   const nextUrl = nextUrlFromResponse(basePath, params, response);
-  return {
-    result: results || [],
-    continuation: nextUrl && !skipContinuation ? { nextUrl } : undefined,
-  };
+  return makeTweetSyncResult(
+    context,
+    results || [],
+    nextUrl,
+    getSyncedTweetMarkers(context) ?? (lastTweetId ? [lastTweetId] : undefined)
+  );
 }
 
+// Suggests the users that the connected account follows, since those are the ones most
+// likely to be synced.
+const autocompleteFollowing = coda.makeMetadataFormula(
+  async (context, search: string) => {
+    const options = [{ display: "Me (the connected account)", value: "me" }];
+    try {
+      const userId = await getAuthenticatedUserId(context);
+      const response = await twitterFetch(context, {
+        method: "GET",
+        url: apiUrl(`/2/users/${userId}/following`, { max_results: 1000 }),
+      });
+      for (const { name, username } of (response.body?.data ??
+        []) as TwitterUser[]) {
+        options.push({ display: `${name} (@${username})`, value: username });
+      }
+    } catch (error) {
+      // Without a connected account there is nothing to suggest beyond "me".
+      console.log(`Couldn't suggest followed users: ${error.message}`);
+    }
+    return coda.simpleAutocomplete(search, options);
+  }
+);
+
 const userIdParameter = coda.makeParameter({
   type: coda.ParameterType.String,
   name: "userId",
   description:
-    "The id, handle, or URL for a Twitter user. For example, '12312312312313' or 'spencerc99' or 'https://twitter.com/spencerc99'",
+    "The id, handle, or URL for a Twitter user, or 'me' for the connected account. For example, '12312312312313' or 'spencerc99' or 'https://twitter.com/spencerc99'",
+  autocomplete: autocompleteFollowing,
 });
 
 const queryParameter = coda.makeParameter({
@@ -568,7 +1835,7 @@ const oldestTweetIdParameter = coda.makeParameter({
   type: coda.ParameterType.String,
   name: "oldestTweetId",
   description:
-    'The ID of a tweet to filter results to only show results posted AFTER this tweet. If not provided, the function will sync everything which is performance intensive. Recommended used with "keep unsynced rows" on to avoid rate limiting of your doc.',
+    "The ID of a tweet to filter results to only show results posted AFTER this tweet. ProfileTweets and LikedTweets remember the newest tweet from their last sync and only fetch newer ones, so this only limits their first sync.",
   optional: true,
 });
 
@@ -596,6 +1863,14 @@ const dateParameter = coda.makeParameter({
   optional: true,
 });
 
+const topicParameter = coda.makeParameter({
+  type: coda.ParameterType.String,
+  name: "topic",
+  description:
+    "Optional. Only keep tweets that Twitter has tagged with this topic domain, e.g. 'Brand' or 'Technology'.",
+  optional: true,
+});
+
 pack.addSyncTable({
   // The display name for the table, shown in the UI.
   name: "LikedTweets",
@@ -615,10 +1890,13 @@ pack.addSyncTable({
 
     // Everything inside this statement will execute anytime your Coda function is called in a doc.
     execute: (params, context) =>
-      getLikedTweets(params, context, context.sync.continuation),
+      resumableTweetSync(context, (continuation) =>
+        getLikedTweets(params, context, continuation)
+      ),
+    extraOAuthScopes: OAuthScopesSyncRead,
   },
   // This indicates whether or not your sync table requires an account connection.
-  connectionRequirement: coda.ConnectionRequirement.None,
+  connectionRequirement: coda.ConnectionRequirement.Optional,
 });
 
 pack.addSyncTable({
@@ -642,14 +1920,52 @@ pack.addSyncTable({
       dateParameter,
       limitParameter,
       newestTweetIdParameter,
+      topicParameter,
     ],
 
     // Everything inside this statement will execute anytime your Coda function is called in a doc.
     execute: (params, context) =>
-      getProfileTweets(params, context, context.sync.continuation),
+      resumableTweetSync(context, (continuation) =>
+        getProfileTweets(params, context, continuation)
+      ),
+    extraOAuthScopes: OAuthScopesSyncRead,
   },
   // This indicates whether or not your sync table requires an account connection.
-  connectionRequirement: coda.ConnectionRequirement.None,
+  connectionRequirement: coda.ConnectionRequirement.Optional,
+});
+
+pack.addSyncTable({
+  name: "Mentions",
+  identityName: "Mention",
+  schema: coda.makeObjectSchema({
+    ...commonTweetSchema,
+    idProperty: "mentionId",
+    displayProperty: "url",
+    identity: { name: "Mention" },
+    properties: {
+      ...commonTweetSchema.properties,
+      // One row per mentioned user, since a tweet can mention several synced users.
+      mentionId: { type: coda.ValueType.String },
+      mentionedUserId: { type: coda.ValueType.String },
+    },
+  }),
+  formula: {
+    name: "Mentions",
+    description: "Fetches the tweets that mention a given user.",
+
+    parameters: [
+      userIdParameter,
+      oldestTweetIdParameter,
+      dateParameter,
+      limitParameter,
+      newestTweetIdParameter,
+    ],
+
+    execute: (params, context) =>
+      getMentions(params, context, context.sync.continuation),
+    extraOAuthScopes: OAuthScopesSyncRead,
+  },
+  connectionRequirement: coda.ConnectionRequirement.Optional,
 });
 
 pack.addFormula({
@@ -744,10 +2060,11 @@ pack.addFormula({
 });
 
 async function getUserFollowers(
-  [id]: any[],
+  [userIdOrHandle]: any[],
   context: coda.ExecutionContext,
   continuation: coda.Continuation | undefined
 ) {
+  const id = await resolveUserId(userIdOrHandle, context);
   const params = {
     expansions: CommonUserExpansions,
     "tweet.fields": CommonTweetFields,
@@ -755,11 +2072,11 @@ async function getUserFollowers(
     max_results: 1000,
   };
   const basePath = `/2/users/${id}/followers`;
-  let url = continuation
+  let url = continuation?.nextUrl
     ? (continuation.nextUrl as string)
     : apiUrl(basePath, params);
 
-  const response = await context.fetcher.fetch({ method: "GET", url });
+  const response = await twitterFetch(context, { method: "GET", url });
 
   const { data, includes } = response.body;
   const annotationInfo = includes;
@@ -767,14 +2084,6 @@ async function getUserFollowers(
     parseUser(rawFollower, annotationInfo)
   );
   const nextUrl = nextUrlFromResponse(basePath, params, response);
-  if (!results) {
-    console.log("No data found: " + JSON.stringify(response, null, 2));
-  } else {
-    console.log(
-      `Found ${results.length} user followers: ` +
-        JSON.stringify(response, null, 2)
-    );
-  }
   return {
     result: results || [],
     continuation: nextUrl ? { nextUrl } : undefined,
@@ -782,10 +2091,11 @@ async function getUserFollowers(
 }
 
 async function getUserFollowing(
-  [id]: any[],
+  [userIdOrHandle]: any[],
   context: coda.ExecutionContext,
   continuation: coda.Continuation | undefined
 ) {
+  const id = await resolveUserId(userIdOrHandle, context);
   const params = {
     expansions: CommonUserExpansions,
     "tweet.fields": CommonTweetFields,
@@ -793,11 +2103,11 @@ async function getUserFollowing(
     max_results: 1000,
   };
   const basePath = `/2/users/${id}/following`;
-  let url = continuation
+  let url = continuation?.nextUrl
     ? (continuation.nextUrl as string)
     : apiUrl(basePath, params);
 
-  const response = await context.fetcher.fetch({ method: "GET", url });
+  const response = await twitterFetch(context, { method: "GET", url });
 
   const { data, includes } = response.body;
   const annotationInfo = includes;
@@ -805,14 +2115,6 @@ async function getUserFollowing(
     parseUser(rawFollower, annotationInfo)
   );
   const nextUrl = nextUrlFromResponse(basePath, params, response);
-  if (!results) {
-    console.log("No data found: " + JSON.stringify(response, null, 2));
-  } else {
-    console.log(
-      `Found ${results.length} user following: ` +
-        JSON.stringify(response, null, 2)
-    );
-  }
   return {
     result: results || [],
     continuation: nextUrl ? { nextUrl } : undefined,
@@ -820,8 +2122,8 @@ async function getUserFollowing(
 }
 
 async function getBookmarks(
-  [id]: any[],
-  context: coda.ExecutionContext,
+  [id, topic]: any[],
+  context: coda.SyncExecutionContext,
   continuation: coda.Continuation | undefined
 ) {
   const params = {
@@ -829,13 +2131,15 @@ async function getBookmarks(
     "tweet.fields": CommonTweetFields,
     "user.fields": CommonTweetUserFields,
     "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
   };
   const basePath = `/2/users/${id}/bookmarks`;
-  let url = continuation
+  let url = continuation?.nextUrl
     ? (continuation.nextUrl as string)
     : apiUrl(basePath, params);
 
-  const response = await context.fetcher.fetch({ method: "GET", url });
+  const response = await twitterFetch(context, { method: "GET", url });
 
   const { data, includes } = response.body;
   const annotationInfo = includes;
@@ -844,21 +2148,93 @@ async function getBookmarks(
   );
   const nextUrl = nextUrlFromResponse(basePath, params, response);
 
-  return {
-    result: results || [],
-    continuation: nextUrl ? { nextUrl } : undefined,
-  };
+  return filterSyncResultByTopic(
+    makeTweetSyncResult(
+      context,
+      results || [],
+      nextUrl,
+      getSyncedTweetMarkers(context)
+    ),
+    topic
+  );
 }
 
+const ReplySettings = ["everyone", "mentionedUsers", "following"];
+
 async function postTweet(
-  [tweet]: any[],
+  [
+    tweet,
+    inReplyToTweetId,
+    quoteTweetId,
+    pollOptions,
+    pollDurationMinutes,
+    replySettings,
+    excludeReplyUserIds,
+  ]: any[],
   context: coda.ExecutionContext
 ): Promise<string> {
-  const response = await context.fetcher.fetch({
+  if (excludeReplyUserIds?.length && !inReplyToTweetId) {
+    throw new coda.UserVisibleError(
+      "excludeReplyUserIds can only be used when replying to a tweet."
+    );
+  }
+  if (pollOptions?.length) {
+    if (pollOptions.length < 2 || pollOptions.length > 4) {
+      throw new coda.UserVisibleError(
+        "Polls must have between 2 and 4 options."
+      );
+    }
+    if (pollOptions.some((option: string) => option.length > 25)) {
+      throw new coda.UserVisibleError(
+        "Poll options must be 25 characters or less."
+      );
+    }
+    if (quoteTweetId) {
+      throw new coda.UserVisibleError("A quote tweet cannot include a poll.");
+    }
+  }
+  if (
+    pollDurationMinutes !== undefined &&
+    (pollDurationMinutes < 5 || pollDurationMinutes > 10080)
+  ) {
+    throw new coda.UserVisibleError(
+      "Poll duration must be between 5 and 10080 minutes (7 days)."
+    );
+  }
+  if (replySettings && !ReplySettings.includes(replySettings)) {
+    throw new coda.UserVisibleError(
+      `Reply settings must be one of: ${ReplySettings.join(", ")}.`
+    );
+  }
+
+  const response = await twitterFetch(context, {
     method: "POST",
     url: apiUrl("/2/tweets"),
     body: JSON.stringify({
       text: tweet,
+      ...(inReplyToTweetId
+        ? {
+            reply: {
+              in_reply_to_tweet_id: parseTweetId(inReplyToTweetId),
+              ...(excludeReplyUserIds?.length
+                ? { exclude_reply_user_ids: excludeReplyUserIds }
+                : {}),
+            },
+          }
+        : {}),
+      ...(quoteTweetId ? { quote_tweet_id: parseTweetId(quoteTweetId) } : {}),
+      ...(pollOptions?.length
+        ? {
+            poll: {
+              options: pollOptions,
+              duration_minutes: pollDurationMinutes ?? 1440,
+            },
+          }
+        : {}),
+      // Twitter defaults to everyone when reply_settings is left out.
+      ...(replySettings && replySettings !== "everyone"
+        ? { reply_settings: replySettings }
+        : {}),
     }),
     headers: {
       "Content-Type": "application/json",
@@ -879,8 +2255,9 @@ pack.addSyncTable({
 
     execute: (params, context) =>
       getUserFollowers(params, context, context.sync.continuation),
+    extraOAuthScopes: OAuthScopesSyncRead,
   },
-  connectionRequirement: coda.ConnectionRequirement.None,
+  connectionRequirement: coda.ConnectionRequirement.Optional,
 });
 
 pack.addSyncTable({
@@ -895,8 +2272,9 @@ pack.addSyncTable({
 
     execute: (params, context) =>
       getUserFollowing(params, context, context.sync.continuation),
+    extraOAuthScopes: OAuthScopesSyncRead,
   },
-  connectionRequirement: coda.ConnectionRequirement.None,
+  connectionRequirement: coda.ConnectionRequirement.Optional,
 });
 
 pack.addColumnFormat({
@@ -911,17 +2289,60 @@ pack.addColumnFormat({
   matchers: [TweetUrlRegex],
 });
 
+const postTweetParameters: coda.ParamDefs = [
+  coda.makeParameter({
+    type: coda.ParameterType.String,
+    name: "tweet",
+    description: "The tweet to post",
+  }),
+  coda.makeParameter({
+    type: coda.ParameterType.String,
+    name: "inReplyToTweetId",
+    description: "Optional. The ID or URL of a tweet to reply to.",
+    optional: true,
+  }),
+  coda.makeParameter({
+    type: coda.ParameterType.String,
+    name: "quoteTweetId",
+    description: "Optional. The ID or URL of a tweet to quote.",
+    optional: true,
+  }),
+  coda.makeParameter({
+    type: coda.ParameterType.StringArray,
+    name: "pollOptions",
+    description:
+      "Optional. Between 2 and 4 options (up to 25 characters each) to attach as a poll.",
+    optional: true,
+  }),
+  coda.makeParameter({
+    type: coda.ParameterType.Number,
+    name: "pollDurationMinutes",
+    description:
+      "Optional. How long the poll should stay open, between 5 and 10080 minutes. Defaults to 1 day.",
+    optional: true,
+  }),
+  coda.makeParameter({
+    type: coda.ParameterType.String,
+    name: "replySettings",
+    description:
+      "Optional. Who can reply to the tweet: 'everyone' (default), 'mentionedUsers' or 'following'.",
+    optional: true,
+    autocomplete: ReplySettings,
+  }),
+  coda.makeParameter({
+    type: coda.ParameterType.StringArray,
+    name: "excludeReplyUserIds",
+    description:
+      "Optional. IDs of users to leave out of the reply, which are otherwise mentioned automatically. Only used with inReplyToTweetId.",
+    optional: true,
+  }),
+];
+
 pack.addFormula({
   resultType: coda.ValueType.String,
   name: "PostTweet",
   description: "Post a tweet. Returns the ID of the new tweet posted",
-  parameters: [
-    coda.makeParameter({
-      type: coda.ParameterType.String,
-      name: "tweet",
-      description: "The tweet to post",
-    }),
-  ],
+  parameters: postTweetParameters,
   execute: postTweet,
   connectionRequirement: coda.ConnectionRequirement.Required,
   isAction: true,
@@ -929,16 +2350,337 @@ pack.addFormula({
   extraOAuthScopes: OAuthScopesReadWrite,
 });
 
-/************************ */
-/*        BOOKMARKS       */
-/************************ */
+pack.addFormula({
+  resultType: coda.ValueType.Object,
+  schema: tweetSchema,
+  name: "PostTweetAndFetch",
+  description: "Post a tweet. Returns the new tweet posted",
+  parameters: postTweetParameters,
+  execute: async (params, context) => {
+    const tweetId = await postTweet(params, context);
+    return getTweet([tweetId], context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: OAuthScopesReadWrite,
+});
 
-async function bookmarkTweet(
+// Tweets are measured with twitter-text's weighted counting
+// (https://github.com/twitter/twitter-text/blob/master/config/v3.json).
+const MaxTweetLength = 280;
+// Twitter shortens every link with t.co, so each one counts as this many characters.
+const ShortenedUrlLength = 23;
+// Code points in these ranges (mostly Latin, punctuation and symbols) count as 1, and
+// everything else, e.g. CJK, counts as 2.
+const SingleWeightCodePointRanges = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+// Every emoji counts as 2, including ones built from several code points.
+const EmojiRegex =
+  /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*|\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3/gu;
+// Anything that looks like a link with or without a scheme, e.g. https://coda.io/docs or
+// twitter.com, leaving off trailing punctuation. isCountedAsLink decides which of these
+// Twitter actually shortens.
+const TweetTextUrlRegex =
+  /(https?:\/\/|(?<![\w@.-]))((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+)([a-z]{2,})(?::\d+)?((?:[/?#][^\s]*[^\s.,!?;:'")\]])?)/gi;
+// The common generic TLDs that are linked without a scheme. Like twitter-text, a
+// two-letter country TLD is only linked with a path or a subdomain, e.g. coda.io/docs,
+// so that file names like main.rs are counted as plain text.
+const BareLinkTopLevelDomains = [
+  "com",
+  "net",
+  "org",
+  "edu",
+  "gov",
+  "mil",
+  "int",
+  "info",
+  "biz",
+  "app",
+  "dev",
+  "xyz",
+  "blog",
+  "news",
+  "shop",
+];
+
+function isCountedAsLink(
+  scheme: string,
+  domainLabels: string,
+  topLevelDomain: string,
+  path: string
+): boolean {
+  if (scheme) {
+    return true;
+  }
+  if (topLevelDomain.length === 2) {
+    return (
+      Boolean(path) ||
+      domainLabels.split(".").length > 2 ||
+      domainLabels.toLowerCase() === "t."
+    );
+  }
+  return BareLinkTopLevelDomains.includes(topLevelDomain.toLowerCase());
+}
+
+function getTweetLength(text: string): number {
+  let length = 0;
+  const remainingText = text
+    .normalize("NFC")
+    .replace(TweetTextUrlRegex, (match, ...groups) => {
+      if (!isCountedAsLink(groups[0], groups[1], groups[2], groups[3])) {
+        return match;
+      }
+      length += ShortenedUrlLength;
+      return "";
+    })
+    .replace(EmojiRegex, () => {
+      length += 2;
+      return "";
+    });
+  for (const character of remainingText) {
+    const codePoint = character.codePointAt(0);
+    length += SingleWeightCodePointRanges.some(
+      ([start, end]) => codePoint >= start && codePoint <= end
+    )
+      ? 1
+      : 2;
+  }
+  return length;
+}
+
+async function postThread(
+  [segments, inReplyToTweetId]: any[],
+  context: coda.ExecutionContext
+): Promise<string[]> {
+  if (!segments?.length) {
+    throw new coda.UserVisibleError("A thread needs at least one tweet.");
+  }
+  // Check every segment up front so we never post half of an invalid thread.
+  segments.forEach((segment: string, index: number) => {
+    if (!segment?.trim()) {
+      throw new coda.UserVisibleError(`Tweet ${index + 1} is empty.`);
+    }
+    const length = getTweetLength(segment);
+    if (length > MaxTweetLength) {
+      throw new coda.UserVisibleError(
+        `Tweet ${
+          index + 1
+        } is ${length} characters long, which is over the ${MaxTweetLength} character limit.`
+      );
+    }
+  });
+
+  const postedTweetIds: string[] = [];
+  let previousTweetId: string | undefined = inReplyToTweetId;
+  for (const [index, segment] of segments.entries()) {
+    try {
+      previousTweetId = await postTweet([segment, previousTweetId], context);
+    } catch (error) {
+      const posted = postedTweetIds.length
+        ? `Already posted: ${postedTweetIds.join(
+            ", "
+          )}. Pass the last ID as inReplyToTweetId to resume.`
+        : "No tweets were posted.";
+      throw new coda.UserVisibleError(
+        `Failed to post tweet ${index + 1} of ${segments.length}: ${
+          error.message
+        }. ${posted}`
+      );
+    }
+    postedTweetIds.push(previousTweetId);
+  }
+  return postedTweetIds;
+}
+
+pack.addFormula({
+  resultType: coda.ValueType.Array,
+  items: { type: coda.ValueType.String },
+  name: "PostThread",
+  description:
+    "Post a thread, with each tweet replying to the previous one. Returns the IDs of the tweets posted",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.StringArray,
+      name: "tweets",
+      description: "The tweets to post, in order",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "inReplyToTweetId",
+      description:
+        "Optional. The ID or URL of a tweet to continue the thread from.",
+      optional: true,
+    }),
+  ],
+  execute: postThread,
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: OAuthScopesReadWrite,
+});
+
+async function deleteTweet(
+  userId: string,
+  tweetId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  const tweetResponse = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl(`/2/tweets/${tweetId}`, { "tweet.fields": "author_id" }),
+  });
+  const { author_id: authorId } = ensureFound<TwitterTweet>(
+    tweetResponse.body,
+    `Tweet ${tweetId} was not found.`
+  );
+  if (authorId !== userId) {
+    throw new coda.UserVisibleError("You can only delete your own tweets.");
+  }
+
+  const response = await twitterFetch(context, {
+    method: "DELETE",
+    url: apiUrl(`/2/tweets/${tweetId}`),
+  });
+  return Boolean(response.body?.data.deleted);
+}
+
+// Retweeting and unretweeting both succeed quietly when the tweet is already in that
+// state, so look it up first. Only the first page of retweeters is checked, so for
+// tweets with more retweets than that this returns undefined when it can't tell.
+async function isRetweetedBy(
+  userId: string,
+  tweetId: string,
+  context: coda.ExecutionContext
+): Promise<boolean | undefined> {
+  const response = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl(`/2/tweets/${tweetId}/retweeted_by`, { max_results: 100 }),
+    // The state may have just changed, e.g. by running Unretweet and then Retweet.
+    cacheTtlSecs: 0,
+  });
+  const users = (response.body?.data ?? []) as TwitterUser[];
+  if (users.some((u) => u.id === userId)) {
+    return true;
+  }
+  return response.body?.meta?.next_token ? undefined : false;
+}
+
+async function retweet(
+  userId: string,
+  tweetId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  if (await isRetweetedBy(userId, tweetId, context)) {
+    throw new coda.UserVisibleError("You have already retweeted this tweet.");
+  }
+  try {
+    const response = await twitterFetch(context, {
+      method: "POST",
+      url: apiUrl(`/2/users/${userId}/retweets`),
+      body: JSON.stringify({
+        tweet_id: tweetId,
+      }),
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+    return Boolean(response.body?.data.retweeted);
+  } catch (error) {
+    // e.g. the tweet is protected or its author has blocked you.
+    if (
+      coda.StatusCodeError.isStatusCodeError(error) &&
+      error.statusCode === 403
+    ) {
+      throw new coda.UserVisibleError(
+        `Unable to retweet tweet ${tweetId}. ${error.body?.detail ?? ""}`.trim()
+      );
+    }
+    throw error;
+  }
+}
+
+async function unretweet(
+  userId: string,
+  tweetId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  if ((await isRetweetedBy(userId, tweetId, context)) === false) {
+    throw new coda.UserVisibleError("You haven't retweeted this tweet.");
+  }
+  const response = await twitterFetch(context, {
+    method: "DELETE",
+    url: apiUrl(`/2/users/${userId}/retweets/${tweetId}`),
+  });
+  return Boolean(response.body?.data.retweeted);
+}
+
+const tweetIdParameter = coda.makeParameter({
+  type: coda.ParameterType.String,
+  name: "tweetId",
+  description: "The ID or URL of the tweet",
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "DeleteTweet",
+  description:
+    "Deletes a tweet posted by the authenticated user. Returns whether the tweet was deleted",
+  parameters: [tweetIdParameter],
+  execute: async ([tweetIdOrUrl], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    return deleteTweet(userId, parseTweetId(tweetIdOrUrl), context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: OAuthScopesReadWrite,
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "Retweet",
+  description: "Retweets a tweet. Returns whether the tweet is now retweeted",
+  parameters: [tweetIdParameter],
+  execute: async ([tweetIdOrUrl], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    return retweet(userId, parseTweetId(tweetIdOrUrl), context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: OAuthScopesReadWrite,
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "Unretweet",
+  description:
+    "Removes a retweet of a tweet. Returns whether the tweet is still retweeted",
+  parameters: [tweetIdParameter],
+  execute: async ([tweetIdOrUrl], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    return unretweet(userId, parseTweetId(tweetIdOrUrl), context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: OAuthScopesReadWrite,
+});
+
+/************************ */
+/*        BOOKMARKS       */
+/************************ */
+
+async function bookmarkTweet(
   userId: string,
   tweetId: string,
   context: coda.ExecutionContext
 ): Promise<boolean> {
-  const response = await context.fetcher.fetch({
+  const response = await twitterFetch(context, {
     method: "POST",
     url: apiUrl(`/2/users/${userId}/bookmarks`),
     body: JSON.stringify({
@@ -956,7 +2698,7 @@ async function removeBookmark(
   tweetId: string,
   context: coda.ExecutionContext
 ): Promise<boolean> {
-  const response = await context.fetcher.fetch({
+  const response = await twitterFetch(context, {
     method: "DELETE",
     url: apiUrl(`/2/users/${userId}/bookmarks/${tweetId}`),
   });
@@ -975,18 +2717,18 @@ pack.addSyncTable({
     name: "Bookmarks",
     description: "Fetches the bookmarks for the authenticated user.",
 
-    parameters: [],
+    parameters: [topicParameter],
 
-    execute: async (_params, context) => {
-      // first get the current authenticated user
-      const response = await context.fetcher.fetch({
-        url: apiUrl("/2/users/me"),
-        method: "GET",
-      });
-      const userId = response.body?.data?.id;
-      coda.ensureExists(userId, "Authenticated user not found.");
+    execute: async ([topic], context) => {
+      const fullResync = maybeRequestFullResync(context);
+      if (fullResync) {
+        return fullResync;
+      }
+      const userId = await getAuthenticatedUserId(context);
 
-      return getBookmarks([userId], context, context.sync.continuation);
+      return resumableTweetSync(context, (continuation) =>
+        getBookmarks([userId, topic], context, continuation)
+      );
     },
   },
   connectionRequirement: coda.ConnectionRequirement.Required,
@@ -1004,13 +2746,7 @@ pack.addFormula({
     }),
   ],
   execute: async ([tweetId], context) => {
-    // first get the current authenticated user
-    const response = await context.fetcher.fetch({
-      url: apiUrl("/2/users/me"),
-      method: "GET",
-    });
-    const userId = response.body?.data?.id;
-    coda.ensureExists(userId, "Authenticated user not found.");
+    const userId = await getAuthenticatedUserId(context);
 
     return bookmarkTweet(userId, tweetId, context);
   },
@@ -1032,13 +2768,7 @@ pack.addFormula({
     }),
   ],
   execute: async ([tweetId], context) => {
-    // first get the current authenticated user
-    const response = await context.fetcher.fetch({
-      url: apiUrl("/2/users/me"),
-      method: "GET",
-    });
-    const userId = response.body?.data?.id;
-    coda.ensureExists(userId, "Authenticated user not found.");
+    const userId = await getAuthenticatedUserId(context);
 
     return removeBookmark(userId, tweetId, context);
   },
@@ -1053,7 +2783,7 @@ async function likeTweet(
   tweetId: string,
   context: coda.ExecutionContext
 ): Promise<boolean> {
-  const response = await context.fetcher.fetch({
+  const response = await twitterFetch(context, {
     method: "POST",
     url: apiUrl(`/2/users/${userId}/likes`),
     body: JSON.stringify({
@@ -1071,7 +2801,7 @@ async function unlikeTweet(
   tweetId: string,
   context: coda.ExecutionContext
 ): Promise<boolean> {
-  const response = await context.fetcher.fetch({
+  const response = await twitterFetch(context, {
     method: "DELETE",
     url: apiUrl(`/2/users/${userId}/likes/${tweetId}`),
   });
@@ -1090,13 +2820,7 @@ pack.addFormula({
     }),
   ],
   execute: async ([tweetId], context) => {
-    // first get the current authenticated user
-    const response = await context.fetcher.fetch({
-      url: apiUrl("/2/users/me"),
-      method: "GET",
-    });
-    const userId = response.body?.data?.id;
-    coda.ensureExists(userId, "Authenticated user not found.");
+    const userId = await getAuthenticatedUserId(context);
 
     return likeTweet(userId, tweetId, context);
   },
@@ -1118,13 +2842,7 @@ pack.addFormula({
     }),
   ],
   execute: async ([tweetId], context) => {
-    // first get the current authenticated user
-    const response = await context.fetcher.fetch({
-      url: apiUrl("/2/users/me"),
-      method: "GET",
-    });
-    const userId = response.body?.data?.id;
-    coda.ensureExists(userId, "Authenticated user not found.");
+    const userId = await getAuthenticatedUserId(context);
 
     return unlikeTweet(userId, tweetId, context);
   },
@@ -1157,13 +2875,7 @@ pack.addFormula({
   connectionRequirement: coda.ConnectionRequirement.Required,
 
   execute: async function ([otherUserId, text], context) {
-    // first get the current authenticated user
-    const response = await context.fetcher.fetch({
-      url: apiUrl("/2/users/me"),
-      method: "GET",
-    });
-    const userId = response.body?.data?.id;
-    coda.ensureExists(userId, "Authenticated user not found.");
+    const userId = await getAuthenticatedUserId(context);
 
     return coda.withQueryParams(
       `https://twitter.com/messages/${userId}-${otherUserId}`,
@@ -1172,94 +2884,2336 @@ pack.addFormula({
   },
 });
 
-// ARCHIVED FORMULAS
-pack.addFormula({
-  name: "GetUser",
-  description: "Gets information about a twitter user by handle.",
-  parameters: [
-    coda.makeParameter({
-      type: coda.ParameterType.String,
-      name: "handle",
-      description: "The Twitter handle you're interested in (omit the @)",
-    }),
-  ],
+/************************ */
+/*          MEDIA         */
+/************************ */
 
-  execute: getUser,
-  resultType: coda.ValueType.Object,
-  schema: userSchema,
-  // TODO(spencer): make this optional after fixing bug around column format
-  connectionRequirement: coda.ConnectionRequirement.None,
-  isExperimental: true,
-});
+// Only the user's recent tweets are scanned, rather than their whole timeline.
+const MaxMediaGalleryPages = 5;
 
-pack.addFormula({
-  name: "GetTweet",
-  description: "Gets information about a tweet by ID or URL.",
-  parameters: [
-    coda.makeParameter({
-      type: coda.ParameterType.String,
-      name: "tweet",
-      description: "the tweet id or URL",
-    }),
-  ],
+async function getMediaGallery(
+  [userIdOrHandle]: any[],
+  context: coda.ExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const userId = await resolveUserId(userIdOrHandle, context);
+  const params = {
+    expansions: CommonTweetExpansions,
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
+    max_results: 100,
+  };
+  const basePath = `/2/users/${userId}/tweets`;
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
 
-  execute: getTweet,
-  resultType: coda.ValueType.Object,
-  schema: tweetSchema,
-  // TODO(spencer): make this optional after fixing bug around column format
-  connectionRequirement: coda.ConnectionRequirement.None,
-  isExperimental: true,
-});
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const annotationInfo = includes;
+  const results = data?.flatMap((rawTweet) => {
+    const tweet = parseTweet(rawTweet, annotationInfo);
+    return (tweet.media ?? []).map((media) => ({
+      ...media,
+      tweetId: tweet.id,
+      tweetUrl: tweet.url,
+      tweetCreatedAt: tweet.created_at,
+      author: tweet.author,
+    }));
+  });
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+  const pageCount = ((continuation?.pageCount as number) ?? 0) + 1;
+  if (nextUrl && pageCount >= MaxMediaGalleryPages) {
+    console.log(`Stopped syncing media after ${pageCount} pages of tweets`);
+  }
+  return {
+    result: results || [],
+    continuation:
+      nextUrl && pageCount < MaxMediaGalleryPages
+        ? { nextUrl, pageCount }
+        : undefined,
+  };
+}
 
-/**
- * DEPRECATED SYNC TABLES
- */
 pack.addSyncTable({
-  name: "SearchTweets",
-  identityName: "SearchTweet",
-  schema: coda.makeObjectSchema({
-    ...commonTweetSchema,
-    displayProperty: "url",
-    identity: { name: "SearchTweet" },
-  }),
+  name: "Media",
+  identityName: "Media",
+  schema: mediaGallerySchema,
   formula: {
-    name: "SearchTweets",
-    description: "Fetches tweets for a given search query.",
+    name: "Media",
+    description:
+      "Fetches the photos, videos and GIFs from a given user's 500 most recent tweets.",
 
-    parameters: [queryParameter],
+    parameters: [userIdParameter],
 
-    execute: (params, context) => {
-      throw new coda.UserVisibleError(
-        "This sync table is deprecated due to Twitter API search limits. I'm working on a new way to support this given the constraints. If interested, contact me at spencerc99@gmail.com"
-      );
-    },
+    execute: (params, context) =>
+      getMediaGallery(params, context, context.sync.continuation),
+    extraOAuthScopes: OAuthScopesSyncRead,
   },
-  connectionRequirement: coda.ConnectionRequirement.None,
+  connectionRequirement: coda.ConnectionRequirement.Optional,
 });
 
-pack.addSyncTable({
-  name: "UserTimeline",
-  identityName: "UserTimeline",
-  schema: coda.makeObjectSchema({
-    ...commonTweetSchema,
-    displayProperty: "url",
-    identity: { name: "UserTimeline" },
-  }),
-  formula: {
-    name: "UserTimeline",
-    description:
-      "Fetches the reverse chronological timeline for the authenticated user.",
+/************************ */
+/*      BATCH LOOKUPS     */
+/************************ */
 
-    parameters: [],
+// The most ids or usernames Twitter accepts in a single lookup request.
+const MaxLookupBatchSize = 100;
 
-    execute: async (_params, context) => {
-      // first get the current authenticated user
-      const response = await context.fetcher.fetch({
-        url: apiUrl("/2/users/me"),
-        method: "GET",
-      });
-      const userId = response.body?.data?.id;
-      coda.ensureExists(userId, "Authenticated user not found.");
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Parses each input, returning undefined for the ones that are invalid so that a single
+// bad cell doesn't fail the whole lookup.
+function tryParseEach(
+  inputs: string[],
+  parse: (input: string) => string
+): (string | undefined)[] {
+  return inputs.map((input) => {
+    try {
+      return parse(input);
+    } catch (error) {
+      return undefined;
+    }
+  });
+}
+
+function makeUnavailableItem(
+  error: TwitterApiError | undefined,
+  notFoundMessage: string
+) {
+  return {
+    status: error ? getErrorStatus(error) : ("Not found" as ItemStatus),
+    cardTitle: error ? describeTwitterError(error) : notFoundMessage,
+  };
+}
+
+async function lookupTweets(
+  tweetIdsOrUrls: string[],
+  context: coda.ExecutionContext
+) {
+  const tweetIds = tryParseEach(tweetIdsOrUrls, parseTweetId);
+  const params = {
+    expansions: CommonTweetExpansions,
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
+  };
+
+  const tweetsById = new Map<string, ReturnType<typeof parseTweet>>();
+  const errorsById = new Map<string, TwitterApiError>();
+  const uniqueTweetIds = Array.from(new Set(tweetIds.filter(Boolean)));
+  for (const batch of chunk(uniqueTweetIds, MaxLookupBatchSize)) {
+    const response = await twitterFetch(context, {
+      method: "GET",
+      url: apiUrl("/2/tweets", { ...params, ids: batch.join(",") }),
+    });
+    const { data, includes, errors } = response.body;
+    for (const rawTweet of data ?? []) {
+      tweetsById.set(rawTweet.id, parseTweet(rawTweet, includes));
+    }
+    for (const error of (errors ?? []) as TwitterApiError[]) {
+      errorsById.set(error.resource_id ?? error.value, error);
+    }
+  }
+
+  return tweetIdsOrUrls.map((input, index) => {
+    const tweetId = tweetIds[index];
+    if (!tweetId) {
+      return {
+        id: input,
+        text: escapeHtml(input),
+        status: "Invalid" as ItemStatus,
+        cardTitle: `"${input}" is not a valid tweet id or URL.`,
+      };
+    }
+    if (tweetsById.has(tweetId)) {
+      return tweetsById.get(tweetId);
+    }
+    const unavailableTweet = makeUnavailableItem(
+      errorsById.get(tweetId),
+      `Tweet ${tweetId} was not found.`
+    );
+    return {
+      id: tweetId,
+      text: escapeHtml(unavailableTweet.cardTitle),
+      url: "https://twitter.com/i/web/status/" + tweetId,
+      ...unavailableTweet,
+    };
+  });
+}
+
+async function lookupUsers(handles: string[], context: coda.ExecutionContext) {
+  const usernames = tryParseEach(handles, parseHandle);
+  const params = {
+    "user.fields": UserLookupFields,
+    expansions: CommonUserExpansions,
+  };
+
+  // Usernames are case insensitive, so match them up in lowercase.
+  const usersByUsername = new Map<string, ReturnType<typeof parseUser>>();
+  const errorsByUsername = new Map<string, TwitterApiError>();
+  const uniqueUsernames = Array.from(
+    new Set(usernames.filter(Boolean).map((u) => u.toLowerCase()))
+  );
+  for (const batch of chunk(uniqueUsernames, MaxLookupBatchSize)) {
+    const response = await twitterFetch(context, {
+      method: "GET",
+      url: apiUrl("/2/users/by", { ...params, usernames: batch.join(",") }),
+    });
+    const { data, errors } = response.body;
+    for (const rawUser of data ?? []) {
+      usersByUsername.set(rawUser.username.toLowerCase(), parseUser(rawUser));
+    }
+    for (const error of (errors ?? []) as TwitterApiError[]) {
+      errorsByUsername.set(error.value?.toLowerCase(), error);
+    }
+  }
+
+  return handles.map((input, index) => {
+    const username = usernames[index]?.toLowerCase();
+    if (!username) {
+      return {
+        id: input,
+        username: input,
+        status: "Invalid" as ItemStatus,
+        cardTitle: `"${input}" is not a valid handle or URL.`,
+      };
+    }
+    if (usersByUsername.has(username)) {
+      return usersByUsername.get(username);
+    }
+    // There's no user id for a missing user, so the username stands in for it.
+    return {
+      id: username,
+      username,
+      ...makeUnavailableItem(
+        errorsByUsername.get(username),
+        `User @${username} was not found.`
+      ),
+    };
+  });
+}
+
+// Like resolveUserId for a batch of users, but with the handles looked up together.
+async function resolveUserIds(
+  userIdsOrHandles: string[],
+  context: coda.ExecutionContext
+): Promise<string[]> {
+  const isHandle = (input: string) =>
+    input.toLowerCase() !== "me" && !/^\d+$/.test(input);
+  const inputs = userIdsOrHandles.map((input) => input.trim());
+  const users = await lookupUsers(inputs.filter(isHandle), context);
+  let handleIndex = 0;
+  const userIds: string[] = [];
+  for (const input of inputs) {
+    if (!isHandle(input)) {
+      userIds.push(await resolveUserId(input, context));
+      continue;
+    }
+    const user = users[handleIndex++];
+    if (user.status !== "Available") {
+      throw new coda.UserVisibleError(user.cardTitle);
+    }
+    userIds.push(user.id);
+  }
+  return userIds;
+}
+
+const tweetsParameter = coda.makeParameter({
+  type: coda.ParameterType.StringArray,
+  name: "tweets",
+  description: "The tweet ids or URLs to look up",
+});
+
+const handlesParameter = coda.makeParameter({
+  type: coda.ParameterType.StringArray,
+  name: "handles",
+  description: "The Twitter handles or profile URLs to look up",
+});
+
+pack.addFormula({
+  name: "Tweets",
+  description:
+    "Gets information about many tweets by ID or URL, in the same order as they were given.",
+  parameters: [tweetsParameter],
+
+  execute: ([tweetIdsOrUrls], context) => lookupTweets(tweetIdsOrUrls, context),
+  resultType: coda.ValueType.Array,
+  items: tweetSchema,
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+pack.addFormula({
+  name: "Users",
+  description:
+    "Gets information about many twitter users by handle, in the same order as they were given.",
+  parameters: [handlesParameter],
+
+  execute: ([handles], context) => lookupUsers(handles, context),
+  resultType: coda.ValueType.Array,
+  items: userSchema,
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+pack.addSyncTable({
+  name: "TweetLookup",
+  identityName: "TweetLookup",
+  schema: coda.makeObjectSchema({
+    ...commonTweetSchema,
+    displayProperty: "url",
+    identity: { name: "TweetLookup" },
+  }),
+  formula: {
+    name: "TweetLookup",
+    description: "Fetches a list of tweets by ID or URL.",
+
+    parameters: [tweetsParameter],
+
+    execute: async ([tweetIdsOrUrls], context) => {
+      const offset = (context.sync.continuation?.offset as number) ?? 0;
+      const nextOffset = offset + MaxLookupBatchSize;
+      return {
+        result: await lookupTweets(
+          tweetIdsOrUrls.slice(offset, nextOffset),
+          context
+        ),
+        continuation:
+          nextOffset < tweetIdsOrUrls.length
+            ? { offset: nextOffset }
+            : undefined,
+      };
+    },
+  },
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+pack.addSyncTable({
+  name: "UserLookup",
+  identityName: "UserLookup",
+  schema: coda.makeObjectSchema({
+    ...userSchema,
+    identity: { name: "UserLookup" },
+  }),
+  formula: {
+    name: "UserLookup",
+    description: "Fetches a list of twitter users by handle.",
+
+    parameters: [handlesParameter],
+
+    execute: async ([handles], context) => {
+      const offset = (context.sync.continuation?.offset as number) ?? 0;
+      const nextOffset = offset + MaxLookupBatchSize;
+      return {
+        result: await lookupUsers(handles.slice(offset, nextOffset), context),
+        continuation:
+          nextOffset < handles.length ? { offset: nextOffset } : undefined,
+      };
+    },
+  },
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+/************************ */
+/*     METRICS HISTORY    */
+/************************ */
+
+const DefaultMetricsLookbackDays = 7;
+
+const tweetMetricsSnapshotSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  idProperty: "snapshotId",
+  displayProperty: "snapshotId",
+  identity: { name: "TweetMetricsSnapshot" },
+  properties: {
+    // A new id for every capture, so that keeping unsynced rows builds up a history.
+    snapshotId: { type: coda.ValueType.String },
+    tweetId: { type: coda.ValueType.String },
+    tweetUrl: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.Url,
+    },
+    tweetCreatedAt: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.DateTime,
+    },
+    capturedAt: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.DateTime,
+    },
+    // How old the tweet was when it was captured, for comparing tweets at e.g. 24 hours.
+    ageHours: { type: coda.ValueType.Number },
+    likeCount: { type: coda.ValueType.Number, fromKey: "like_count" },
+    retweetCount: { type: coda.ValueType.Number, fromKey: "retweet_count" },
+    replyCount: { type: coda.ValueType.Number, fromKey: "reply_count" },
+    quoteCount: { type: coda.ValueType.Number, fromKey: "quote_count" },
+  },
+  featuredProperties: [
+    "tweetUrl",
+    "capturedAt",
+    "ageHours",
+    "likeCount",
+    "retweetCount",
+  ],
+  linkProperty: "tweetUrl",
+});
+
+function makeMetricsSnapshot(
+  tweet: ReturnType<typeof parseTweet>,
+  capturedAt: string
+) {
+  const ageMs =
+    new Date(capturedAt).getTime() - new Date(tweet.created_at).getTime();
+  return {
+    snapshotId: `${tweet.id}@${capturedAt}`,
+    tweetId: tweet.id,
+    tweetUrl: tweet.url,
+    tweetCreatedAt: tweet.created_at,
+    capturedAt,
+    ageHours: Math.round(ageMs / (60 * 60 * 1000)),
+    like_count: tweet.like_count,
+    retweet_count: tweet.retweet_count,
+    reply_count: tweet.reply_count,
+    quote_count: tweet.quote_count,
+  };
+}
+
+async function getTweetMetricsSnapshots(
+  [tweetIdsOrUrls, userIdOrHandle, lookbackDays]: any[],
+  context: coda.SyncExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  if (!tweetIdsOrUrls?.length && !userIdOrHandle) {
+    throw new coda.UserVisibleError(
+      "Provide either a list of tweets or a user to capture metrics for."
+    );
+  }
+  // Every row from the same sync shares a capture time, even across continuations.
+  const capturedAt =
+    (continuation?.capturedAt as string) ?? new Date().toISOString();
+
+  if (tweetIdsOrUrls?.length) {
+    const offset = (continuation?.offset as number) ?? 0;
+    const nextOffset = offset + MaxLookupBatchSize;
+    const tweets = await lookupTweets(
+      tweetIdsOrUrls.slice(offset, nextOffset),
+      context
+    );
+    return {
+      result: tweets
+        .filter((tweet) => "created_at" in tweet)
+        .map((tweet) =>
+          makeMetricsSnapshot(
+            tweet as ReturnType<typeof parseTweet>,
+            capturedAt
+          )
+        ),
+      continuation:
+        nextOffset < tweetIdsOrUrls.length
+          ? { offset: nextOffset, capturedAt }
+          : undefined,
+    };
+  }
+
+  const days = lookbackDays ?? DefaultMetricsLookbackDays;
+  if (days <= 0) {
+    throw new coda.UserVisibleError("Lookback days must be greater than 0.");
+  }
+  const userId = await resolveUserId(userIdOrHandle, context);
+  const startTime = new Date(
+    new Date(capturedAt).getTime() - days * 24 * 60 * 60 * 1000
+  );
+  const params = {
+    expansions: "author_id",
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    start_time: startTime.toISOString(),
+    max_results: 100,
+  };
+  const basePath = `/2/users/${userId}/tweets`;
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const results = data?.map((rawTweet) =>
+    makeMetricsSnapshot(parseTweet(rawTweet, includes), capturedAt)
+  );
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+  return {
+    result: results || [],
+    continuation: nextUrl ? { nextUrl, capturedAt } : undefined,
+  };
+}
+
+pack.addSyncTable({
+  name: "TweetMetricsSnapshots",
+  identityName: "TweetMetricsSnapshot",
+  schema: tweetMetricsSnapshotSchema,
+  formula: {
+    name: "TweetMetricsSnapshots",
+    description:
+      'Captures the current likes, retweets, replies and quotes of some tweets. Turn on "keep unsynced rows" to build up a history of each tweet over time.',
+
+    parameters: [
+      coda.makeParameter({
+        type: coda.ParameterType.StringArray,
+        name: "tweets",
+        description:
+          "Optional. The tweet ids or URLs to capture. Either this or a user is required.",
+        optional: true,
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "userId",
+        description:
+          "Optional. Capture the tweets this user has posted recently instead. Accepts an id, handle, URL or 'me'.",
+        optional: true,
+        autocomplete: autocompleteFollowing,
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.Number,
+        name: "lookbackDays",
+        description: `Optional. How many days of the user's tweets to capture. Defaults to ${DefaultMetricsLookbackDays}.`,
+        optional: true,
+      }),
+    ],
+
+    execute: (params, context) =>
+      getTweetMetricsSnapshots(params, context, context.sync.continuation),
+    extraOAuthScopes: OAuthScopesSyncRead,
+  },
+  connectionRequirement: coda.ConnectionRequirement.Optional,
+});
+
+/************************ */
+/*      EDIT HISTORY      */
+/************************ */
+
+const tweetVersionSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  idProperty: "id",
+  displayProperty: "url",
+  properties: {
+    // Starts at 1 for the original tweet.
+    version: { type: coda.ValueType.Number },
+    id: { type: coda.ValueType.String },
+    createdAt: {
+      type: coda.ValueType.String,
+      fromKey: "created_at",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    text: { type: coda.ValueType.String, codaType: coda.ValueHintType.Html },
+    // What changed since the previous version, with removed words struck through.
+    changes: { type: coda.ValueType.String, codaType: coda.ValueHintType.Html },
+    isLatest: { type: coda.ValueType.Boolean },
+    url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
+  },
+  featuredProperties: ["version", "createdAt", "changes"],
+  linkProperty: "url",
+});
+
+// A word-level diff of two versions of a tweet, as HTML.
+function diffTweetText(before: string, after: string): string {
+  const a = unescapeTweetText(before).split(/(\s+)/);
+  const b = unescapeTweetText(after).split(/(\s+)/);
+  // lengths[i][j] is the longest common subsequence of a[i:] and b[j:].
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let html = "";
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      html += escapeHtml(a[i++]);
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      html += `<del>${escapeHtml(a[i++])}</del>`;
+    } else {
+      html += `<ins>${escapeHtml(b[j++])}</ins>`;
+    }
+  }
+  return html.replace(/\n/g, "<br/>");
+}
+
+async function getEditHistory(
+  [tweetIdOrUrl]: string[],
+  context: coda.ExecutionContext
+) {
+  const tweetId = parseTweetId(tweetIdOrUrl);
+  const params = {
+    expansions: "author_id,edit_history_tweet_ids",
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+  };
+  const response = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl(`/2/tweets/${tweetId}`, params),
+  });
+  const tweet = ensureFound<TwitterTweet>(
+    response.body,
+    `Tweet ${tweetId} was not found.`
+  );
+  const { includes } = response.body;
+
+  const versionsById = new Map<string, TwitterTweet>();
+  for (const version of [tweet, ...(includes?.tweets ?? [])]) {
+    versionsById.set(version.id, version);
+  }
+  // Fetch any versions that didn't come back in `includes`.
+  const versionIds = tweet.edit_history_tweet_ids ?? [tweet.id];
+  const missingIds = versionIds.filter((id) => !versionsById.has(id));
+  if (missingIds.length) {
+    const missingResponse = await twitterFetch(context, {
+      method: "GET",
+      url: apiUrl("/2/tweets", { ...params, ids: missingIds.join(",") }),
+    });
+    for (const version of (missingResponse.body?.data ??
+      []) as TwitterTweet[]) {
+      versionsById.set(version.id, version);
+    }
+  }
+
+  // Tweet ids increase over time, so the newest version has the newest id.
+  const versions = Array.from(versionsById.values())
+    .filter((version) => versionIds.includes(version.id))
+    .sort((a, b) => (getNewerTweetId(a.id, b.id) === b.id ? -1 : 1));
+  return versions.map((version, index) => {
+    const { url, text } = parseTweet(version, includes ?? {});
+    const previous = versions[index - 1];
+    return {
+      version: index + 1,
+      id: version.id,
+      created_at: version.created_at,
+      text,
+      changes: previous ? diffTweetText(previous.text, version.text) : text,
+      isLatest: index === versions.length - 1,
+      url,
+    };
+  });
+}
+
+pack.addFormula({
+  name: "EditHistory",
+  description:
+    "Gets every version of an edited tweet, from the original to the latest, with what changed in each.",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "tweet",
+      description: "The id or URL of any version of the tweet",
+    }),
+  ],
+
+  execute: getEditHistory,
+  resultType: coda.ValueType.Array,
+  items: tweetVersionSchema,
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+/************************ */
+/*      RELATIONSHIPS     */
+/************************ */
+
+type UserRelationship = "following" | "blocking" | "muting";
+
+async function addRelationship(
+  relationship: UserRelationship,
+  userId: string,
+  targetUserId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  const response = await twitterFetch(context, {
+    method: "POST",
+    url: apiUrl(`/2/users/${userId}/${relationship}`),
+    body: JSON.stringify({
+      target_user_id: targetUserId,
+    }),
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+  // Following a protected user only sends a follow request until they accept it.
+  return Boolean(
+    response.body?.data[relationship] || response.body?.data.pending_follow
+  );
+}
+
+async function removeRelationship(
+  relationship: UserRelationship,
+  userId: string,
+  targetUserId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  const response = await twitterFetch(context, {
+    method: "DELETE",
+    url: apiUrl(`/2/users/${userId}/${relationship}/${targetUserId}`),
+  });
+  return Boolean(response.body?.data[relationship]);
+}
+
+async function getRelationshipUsers(
+  relationship: UserRelationship,
+  context: coda.ExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const userId = await getAuthenticatedUserId(context);
+  const params = {
+    expansions: CommonUserExpansions,
+    "user.fields": UserLookupFields,
+    max_results: 1000,
+  };
+  const basePath = `/2/users/${userId}/${relationship}`;
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const annotationInfo = includes;
+  const results = data?.map((rawUser) => parseUser(rawUser, annotationInfo));
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+  return {
+    result: results || [],
+    continuation: nextUrl ? { nextUrl } : undefined,
+  };
+}
+
+const targetUserParameter = coda.makeParameter({
+  type: coda.ParameterType.String,
+  name: "user",
+  description:
+    "The id, handle, or URL for a Twitter user. For example, '12312312312313' or 'spencerc99' or 'https://twitter.com/spencerc99'",
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "FollowUser",
+  description:
+    "Follows a user. Returns whether the user is now followed, or a follow request was sent",
+  parameters: [targetUserParameter],
+  execute: async ([targetUser], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    const targetUserId = await resolveUserId(targetUser, context);
+    return addRelationship("following", userId, targetUserId, context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "UnfollowUser",
+  description: "Unfollows a user. Returns whether the user is still followed",
+  parameters: [targetUserParameter],
+  execute: async ([targetUser], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    const targetUserId = await resolveUserId(targetUser, context);
+    return removeRelationship("following", userId, targetUserId, context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "BlockUser",
+  description: "Blocks a user. Returns whether the user is now blocked",
+  parameters: [targetUserParameter],
+  execute: async ([targetUser], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    const targetUserId = await resolveUserId(targetUser, context);
+    return addRelationship("blocking", userId, targetUserId, context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "UnblockUser",
+  description: "Unblocks a user. Returns whether the user is still blocked",
+  parameters: [targetUserParameter],
+  execute: async ([targetUser], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    const targetUserId = await resolveUserId(targetUser, context);
+    return removeRelationship("blocking", userId, targetUserId, context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "MuteUser",
+  description: "Mutes a user. Returns whether the user is now muted",
+  parameters: [targetUserParameter],
+  execute: async ([targetUser], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    const targetUserId = await resolveUserId(targetUser, context);
+    return addRelationship("muting", userId, targetUserId, context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "UnmuteUser",
+  description: "Unmutes a user. Returns whether the user is still muted",
+  parameters: [targetUserParameter],
+  execute: async ([targetUser], context) => {
+    const userId = await getAuthenticatedUserId(context);
+    const targetUserId = await resolveUserId(targetUser, context);
+    return removeRelationship("muting", userId, targetUserId, context);
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+});
+
+pack.addSyncTable({
+  name: "Blocks",
+  identityName: "BlockedUser",
+  schema: blockedUserSchema,
+  formula: {
+    name: "Blocks",
+    description: "Fetches the users blocked by the authenticated user.",
+
+    parameters: [],
+
+    execute: (_params, context) =>
+      getRelationshipUsers("blocking", context, context.sync.continuation),
+    extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+});
+
+pack.addSyncTable({
+  name: "Mutes",
+  identityName: "MutedUser",
+  schema: mutedUserSchema,
+  formula: {
+    name: "Mutes",
+    description: "Fetches the users muted by the authenticated user.",
+
+    parameters: [],
+
+    execute: (_params, context) =>
+      getRelationshipUsers("muting", context, context.sync.continuation),
+    extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesRelationships],
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+});
+
+/************************ */
+/*      CONVERSATIONS     */
+/************************ */
+
+// Conversations are fetched in a single sync execution so that the depth of each reply
+// can be computed from its ancestors. This caps it at 1000 replies.
+const MaxConversationPages = 10;
+
+function getParentTweetId(tweet: TwitterTweet): string | undefined {
+  return tweet.referenced_tweets?.find((t) => t.type === "replied_to")?.id;
+}
+
+// Gathers the tweets and their includes from several responses, so that they can all be
+// parsed against the same users and media. The same user or media often comes back in
+// more than one response, so each is only kept once.
+function makeTweetCollector() {
+  const rawTweets: TwitterTweet[] = [];
+  const annotationInfo: Required<TweetAnnotationInfo> = {
+    users: [],
+    media: [],
+    tweets: [],
+    polls: [],
+    places: [],
+  };
+  const seenKeys = new Set<string>();
+  const addUnique = <T>(
+    items: T[],
+    newItems: T[] = [],
+    getKey: (item: T) => string
+  ) => {
+    for (const item of newItems) {
+      const key = getKey(item);
+      if (!seenKeys.has(key)) {
+        seenKeys.add(key);
+        items.push(item);
+      }
+    }
+  };
+  const addResponse = ({ data, includes }: any) => {
+    addUnique(
+      rawTweets,
+      Array.isArray(data) ? data : data ? [data] : [],
+      (t) => `tweet:${t.id}`
+    );
+    addUnique(annotationInfo.users, includes?.users, (u) => `user:${u.id}`);
+    addUnique(
+      annotationInfo.media,
+      includes?.media,
+      (m) => `media:${m.media_key}`
+    );
+    addUnique(
+      annotationInfo.tweets,
+      includes?.tweets,
+      (t) => `included:${t.id}`
+    );
+    addUnique(annotationInfo.polls, includes?.polls, (p) => `poll:${p.id}`);
+    addUnique(annotationInfo.places, includes?.places, (p) => `place:${p.id}`);
+  };
+  return { rawTweets, annotationInfo, addResponse };
+}
+
+async function getConversation(
+  [tweetIdOrUrl]: any[],
+  context: coda.ExecutionContext
+) {
+  const tweetId = parseTweetId(tweetIdOrUrl);
+  const params = {
+    expansions: CommonTweetExpansions,
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
+  };
+
+  const tweetResponse = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl(`/2/tweets/${tweetId}`, params),
+  });
+  const { conversation_id: conversationId } = ensureFound<TwitterTweet>(
+    tweetResponse.body,
+    `Tweet ${tweetId} was not found.`
+  );
+
+  const { rawTweets, annotationInfo, addResponse } = makeTweetCollector();
+
+  // Neither the root tweet nor an older given tweet is guaranteed to be returned by
+  // search, so fetch them directly.
+  if (conversationId !== tweetId) {
+    const rootResponse = await twitterFetch(context, {
+      method: "GET",
+      url: apiUrl(`/2/tweets/${conversationId}`, params),
+    });
+    addResponse(rootResponse.body);
+  }
+  addResponse(tweetResponse.body);
+
+  // Search only covers the last 7 days of replies.
+  const searchParams = {
+    ...params,
+    query: `conversation_id:${conversationId}`,
+    max_results: 100,
+  };
+  const basePath = "/2/tweets/search/recent";
+  let url = apiUrl(basePath, searchParams);
+  let replyCount = 0;
+  for (let page = 0; url && page < MaxConversationPages; page++) {
+    const response = await twitterFetch(context, { method: "GET", url });
+    addResponse(response.body);
+    replyCount += response.body?.meta?.result_count ?? 0;
+    url = nextUrlFromResponse(basePath, searchParams, response);
+  }
+  if (url) {
+    console.log(
+      `Stopped syncing conversation ${conversationId} after ${MaxConversationPages} pages`
+    );
+  }
+  const root = rawTweets.find((t) => t.id === conversationId);
+  if (
+    !replyCount &&
+    conversationId === tweetId &&
+    root &&
+    Date.now() - new Date(root.created_at).getTime() > RecentSearchWindowMs
+  ) {
+    throw new coda.UserVisibleError(
+      "This conversation started more than 7 days ago and has no recent replies. Twitter only lets us search the last 7 days, so older replies can't be fetched."
+    );
+  }
+
+  const tweetsById = new Map(rawTweets.map((t) => [t.id, t]));
+  const getDepth = (tweet: TwitterTweet): number | undefined => {
+    let depth = 0;
+    let current = tweet;
+    while (current.id !== conversationId) {
+      const parentTweetId = getParentTweetId(current);
+      depth++;
+      if (parentTweetId === conversationId) {
+        break;
+      }
+      current = tweetsById.get(parentTweetId);
+      // The chain is broken by a deleted or older tweet.
+      if (!current) {
+        return undefined;
+      }
+    }
+    return depth;
+  };
+
+  return {
+    result: Array.from(tweetsById.values()).map((rawTweet) => ({
+      ...parseTweet(rawTweet, annotationInfo),
+      parentTweetId: getParentTweetId(rawTweet),
+      depth: getDepth(rawTweet),
+      rootTweetId: conversationId,
+    })),
+  };
+}
+
+pack.addSyncTable({
+  name: "Conversation",
+  identityName: "ConversationTweet",
+  schema: conversationTweetSchema,
+  formula: {
+    name: "Conversation",
+    description:
+      "Fetches the tweets in the conversation that a given tweet belongs to, including their position in the reply tree. Only replies from the last 7 days can be found, up to 1000 of them.",
+
+    parameters: [
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "tweet",
+        description: "the id or URL of any tweet in the conversation",
+      }),
+    ],
+
+    execute: (params, context) => getConversation(params, context),
+  },
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+// Threads are followed one tweet at a time when they're too old for search, so this caps
+// how far back that goes.
+const MaxUnrolledThreadLength = 50;
+
+const ThreadFormats = ["richText", "markdown", "html"];
+
+// `notes` flag parts of the thread that couldn't be found.
+function renderThread(
+  thread: TwitterTweet[],
+  annotationInfo: TweetAnnotationInfo,
+  format: string,
+  notes: string[]
+): string {
+  const tweets = thread.map((rawTweet) => parseTweet(rawTweet, annotationInfo));
+  const root = tweets[0];
+  const byline = root.author
+    ? `Thread by ${root.author.name} (@${root.author.username})`
+    : "Thread";
+
+  if (format === "markdown") {
+    const paragraphs = thread.map((rawTweet, index) => {
+      const text = parseTweetText(
+        rawTweet.text,
+        rawTweet.entities,
+        MarkdownTextFormat
+      );
+      const images = (tweets[index].media ?? [])
+        .filter((media) => media.url)
+        .map(
+          (media) =>
+            `![${escapeMarkdown(media.alt_text ?? media.type)}](${media.url})`
+        );
+      return [text, ...images].join("\n\n");
+    });
+    return [
+      ...paragraphs,
+      ...notes.map((note) => `_${escapeMarkdown(note)}_`),
+      MarkdownTextFormat.link(root.url, `${byline}, ${root.created_at}`),
+    ].join("\n\n");
+  }
+
+  const paragraphs = tweets.map(({ text, media }) => {
+    const images = (media ?? [])
+      .filter((m) => m.url)
+      .map(
+        (m) =>
+          `<a href='${escapeHtml(m.videoUrl ?? m.url)}'><img src='${escapeHtml(
+            m.url
+          )}' alt='${escapeHtml(m.alt_text ?? m.type)}'/></a>`
+      );
+    return `<p>${text}</p>${images.join("")}`;
+  });
+  return [
+    ...paragraphs,
+    ...notes.map((note) => `<p><em>${escapeHtml(note)}</em></p>`),
+    `<p>${makeLink(root.url, `${byline}, ${root.created_at}`)}</p>`,
+  ].join("");
+}
+
+async function unrollThread(
+  [tweetIdOrUrl, format]: string[],
+  context: coda.ExecutionContext
+): Promise<string> {
+  const threadFormat = format ?? "richText";
+  if (!ThreadFormats.includes(threadFormat)) {
+    throw new coda.UserVisibleError(
+      `Format must be one of: ${ThreadFormats.join(", ")}.`
+    );
+  }
+  const tweetId = parseTweetId(tweetIdOrUrl);
+  const params = {
+    expansions: CommonTweetExpansions,
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    "media.fields": CommonTweetMediaFields,
+  };
+  const { rawTweets, annotationInfo, addResponse } = makeTweetCollector();
+  const fetchTweet = async (id: string) => {
+    const response = await twitterFetch(context, {
+      method: "GET",
+      url: apiUrl(`/2/tweets/${id}`, params),
+    });
+    addResponse(response.body);
+    return response.body;
+  };
+
+  const tweet = ensureFound<TwitterTweet>(
+    await fetchTweet(tweetId),
+    `Tweet ${tweetId} was not found.`
+  );
+  const conversationId = tweet.conversation_id;
+  const root: TwitterTweet | undefined =
+    conversationId === tweetId
+      ? tweet
+      : (await fetchTweet(conversationId)).data;
+  // The thread's author is the first tweet's, unless that tweet has been deleted.
+  const authorId = (root ?? tweet).author_id;
+
+  // Search finds the rest of the author's replies, but only from the last 7 days.
+  const searchParams = {
+    ...params,
+    query: `conversation_id:${conversationId} from:${authorId}`,
+    max_results: 100,
+  };
+  const basePath = "/2/tweets/search/recent";
+  let url = apiUrl(basePath, searchParams);
+  for (let page = 0; url && page < MaxConversationPages; page++) {
+    const response = await twitterFetch(context, { method: "GET", url });
+    addResponse(response.body);
+    url = nextUrlFromResponse(basePath, searchParams, response);
+  }
+
+  // For older threads, walk back up from the given tweet to the first one instead. This
+  // stops early at a deleted tweet.
+  const tweetsById = new Map(rawTweets.map((t) => [t.id, t]));
+  let top = tweet;
+  for (
+    let length = 0;
+    top.id !== conversationId && length < MaxUnrolledThreadLength;
+    length++
+  ) {
+    const parentTweetId = getParentTweetId(top);
+    if (!parentTweetId) {
+      break;
+    }
+    if (!tweetsById.has(parentTweetId)) {
+      const parent: TwitterTweet | undefined = (await fetchTweet(parentTweetId))
+        .data;
+      if (!parent) {
+        break;
+      }
+      tweetsById.set(parent.id, parent);
+    }
+    top = tweetsById.get(parentTweetId);
+  }
+
+  // Follow the author's replies to themselves down from the first tweet, taking the
+  // earliest reply whenever they replied to the same tweet more than once.
+  const thread = [top];
+  while (thread.length < tweetsById.size) {
+    const last = thread[thread.length - 1];
+    const next = Array.from(tweetsById.values())
+      .filter(
+        (t) => t.author_id === authorId && getParentTweetId(t) === last.id
+      )
+      .sort((a, b) => (getNewerTweetId(a.id, b.id) === b.id ? -1 : 1))[0];
+    if (!next) {
+      break;
+    }
+    thread.push(next);
+  }
+
+  const notes: string[] = [];
+  if (top.id !== conversationId) {
+    notes.push(
+      "Earlier tweets in this thread couldn't be found, for example because they were deleted."
+    );
+  }
+  // Anything posted after the last tweet found would have shown up in search, unless
+  // it's too old for search or past the page limit.
+  const lastTweet = thread[thread.length - 1];
+  if (
+    url ||
+    Date.now() - new Date(lastTweet.created_at).getTime() > RecentSearchWindowMs
+  ) {
+    notes.push(
+      "This thread may be incomplete. Twitter only lets us search the last 7 days, so later tweets may be missing. Unroll from the last tweet of the thread to include them."
+    );
+  }
+
+  const rendered = renderThread(thread, annotationInfo, threadFormat, notes);
+  // The other formats are returned as source, so escape them to show up as text.
+  return threadFormat === "richText"
+    ? rendered
+    : escapeHtml(rendered).replace(/\n/g, "<br/>");
+}
+
+pack.addFormula({
+  name: "UnrollThread",
+  description:
+    "Gets a whole thread from any of its tweets as a single block of rich text, Markdown or HTML.",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "tweet",
+      description: "The id or URL of any tweet in the thread",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "format",
+      description:
+        "Optional. Either 'richText', 'markdown' or 'html'. Defaults to 'richText'.",
+      optional: true,
+      autocomplete: ThreadFormats,
+    }),
+  ],
+
+  execute: unrollThread,
+  resultType: coda.ValueType.String,
+  codaType: coda.ValueHintType.Html,
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+/************************ */
+/*          LISTS         */
+/************************ */
+
+// https://twitter.com/i/lists/1541857534234984450
+const TwitterListUrlRegex =
+  /^.*twitter\.com\/i\/lists\/(\d+)\??[^\/]*\/?(\?.*)?$/;
+
+function parseListId(listIdOrUrl: string): string {
+  const maybeListIdMatch = listIdOrUrl.match(TwitterListUrlRegex)?.[1];
+  const listId = (maybeListIdMatch ?? listIdOrUrl).trim();
+
+  if (Number.isNaN(Number(listId))) {
+    throw new coda.UserVisibleError("Invalid list id");
+  }
+  return listId;
+}
+
+function parseList(list: TwitterList, { users }: TweetAnnotationInfo = {}) {
+  const owner = users?.find((u) => u.id === list.owner_id);
+  return {
+    ...list,
+    owner: owner ? parseUser(owner) : undefined,
+    url: `https://twitter.com/i/lists/${list.id}`,
+  };
+}
+
+type ListRelationship = "owned" | "followed";
+
+async function getUserLists(
+  [userIdOrHandle]: any[],
+  context: coda.ExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const userId = await resolveUserId(userIdOrHandle, context);
+  // Owned lists are synced first, then followed lists.
+  const relationship = (continuation?.relationship ??
+    "owned") as ListRelationship;
+  const params = {
+    expansions: CommonListExpansions,
+    "list.fields": CommonListFields,
+    "user.fields": CommonTweetUserFields,
+    max_results: 100,
+  };
+  const basePath = `/2/users/${userId}/${relationship}_lists`;
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const results = data?.map((rawList) => ({
+    ...parseList(rawList, includes),
+    relationship,
+    sourceUserId: userId,
+  }));
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+
+  let nextContinuation: coda.Continuation | undefined;
+  if (nextUrl) {
+    nextContinuation = { nextUrl, relationship };
+  } else if (relationship === "owned") {
+    nextContinuation = { relationship: "followed" };
+  }
+  return {
+    result: results || [],
+    continuation: nextContinuation,
+  };
+}
+
+async function getListMembers(
+  [listIdOrUrl]: any[],
+  context: coda.ExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const listId = parseListId(listIdOrUrl);
+  const params = {
+    expansions: CommonUserExpansions,
+    "user.fields": UserLookupFields,
+    max_results: 100,
+  };
+  const basePath = `/2/lists/${listId}/members`;
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data } = response.body;
+  const results = data?.map((rawMember) => ({
+    ...parseUser(rawMember),
+    listId,
+  }));
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+  return {
+    result: results || [],
+    continuation: nextUrl ? { nextUrl } : undefined,
+  };
+}
+
+async function getListTweets(
+  [listIdOrUrl]: any[],
+  context: coda.ExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const listId = parseListId(listIdOrUrl);
+  const params = {
+    expansions: CommonTweetExpansions,
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
+    max_results: 100,
+  };
+  const basePath = `/2/lists/${listId}/tweets`;
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const annotationInfo = includes;
+  const results = data?.map((rawTweet) => parseTweet(rawTweet, annotationInfo));
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+  return {
+    result: results || [],
+    continuation: nextUrl ? { nextUrl } : undefined,
+  };
+}
+
+async function createList(
+  [name, description, isPrivate]: any[],
+  context: coda.ExecutionContext
+): Promise<string> {
+  const response = await twitterFetch(context, {
+    method: "POST",
+    url: apiUrl("/2/lists"),
+    body: JSON.stringify({
+      name,
+      description,
+      private: Boolean(isPrivate),
+    }),
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+  return response.body.data.id;
+}
+
+async function deleteList(
+  listId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  const response = await twitterFetch(context, {
+    method: "DELETE",
+    url: apiUrl(`/2/lists/${listId}`),
+  });
+  return Boolean(response.body?.data.deleted);
+}
+
+async function addListMember(
+  listId: string,
+  userId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  const response = await twitterFetch(context, {
+    method: "POST",
+    url: apiUrl(`/2/lists/${listId}/members`),
+    body: JSON.stringify({
+      user_id: userId,
+    }),
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+  return Boolean(response.body?.data.is_member);
+}
+
+async function removeListMember(
+  listId: string,
+  userId: string,
+  context: coda.ExecutionContext
+): Promise<boolean> {
+  const response = await twitterFetch(context, {
+    method: "DELETE",
+    url: apiUrl(`/2/lists/${listId}/members/${userId}`),
+  });
+  return Boolean(response.body?.data.is_member);
+}
+
+const listIdParameter = coda.makeParameter({
+  type: coda.ParameterType.String,
+  name: "listId",
+  description:
+    "The id or URL for a Twitter list. For example, '1541857534234984450' or 'https://twitter.com/i/lists/1541857534234984450'",
+});
+
+pack.addSyncTable({
+  name: "UserLists",
+  identityName: "UserList",
+  schema: userListSchema,
+  formula: {
+    name: "UserLists",
+    description: "Fetches the lists that a given user owns or follows.",
+
+    parameters: [userIdParameter],
+
+    execute: (params, context) =>
+      getUserLists(params, context, context.sync.continuation),
+    extraOAuthScopes: OAuthScopesSyncRead,
+  },
+  connectionRequirement: coda.ConnectionRequirement.Optional,
+});
+
+pack.addSyncTable({
+  name: "ListMembers",
+  identityName: "ListMember",
+  schema: listMemberSchema,
+  formula: {
+    name: "ListMembers",
+    description: "Fetches the members of a given list.",
+
+    parameters: [listIdParameter],
+
+    execute: (params, context) =>
+      getListMembers(params, context, context.sync.continuation),
+  },
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+pack.addSyncTable({
+  name: "ListTweets",
+  identityName: "ListTweet",
+  schema: coda.makeObjectSchema({
+    ...commonTweetSchema,
+    displayProperty: "url",
+    identity: { name: "ListTweet" },
+  }),
+  formula: {
+    name: "ListTweets",
+    description: "Fetches the most recent tweets from members of a given list.",
+
+    parameters: [listIdParameter],
+
+    execute: (params, context) =>
+      getListTweets(params, context, context.sync.continuation),
+  },
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.String,
+  name: "CreateList",
+  description: "Creates a new list. Returns the ID of the new list",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "name",
+      description: "The name of the list",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "description",
+      description: "Optional. A description of the list",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "private",
+      description: "Optional. Whether the list should be private",
+      optional: true,
+    }),
+  ],
+  execute: createList,
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesLists],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "DeleteList",
+  description: "Deletes a list owned by the authenticated user",
+  parameters: [listIdParameter],
+  execute: async ([listIdOrUrl], context) =>
+    deleteList(parseListId(listIdOrUrl), context),
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesLists],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "AddListMember",
+  description: "Adds a user to a list owned by the authenticated user",
+  parameters: [listIdParameter, userIdParameter],
+  execute: async ([listIdOrUrl, userIdOrHandle], context) =>
+    addListMember(
+      parseListId(listIdOrUrl),
+      await resolveUserId(userIdOrHandle, context),
+      context
+    ),
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [
+    ...OAuthScopesReadWrite,
+    ...OAuthScopesLists,
+    ...OAuthScopesFollowsRead,
+  ],
+});
+
+pack.addFormula({
+  resultType: coda.ValueType.Boolean,
+  name: "RemoveListMember",
+  description: "Removes a user from a list owned by the authenticated user",
+  parameters: [listIdParameter, userIdParameter],
+  execute: async ([listIdOrUrl, userIdOrHandle], context) =>
+    removeListMember(
+      parseListId(listIdOrUrl),
+      await resolveUserId(userIdOrHandle, context),
+      context
+    ),
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [
+    ...OAuthScopesReadWrite,
+    ...OAuthScopesLists,
+    ...OAuthScopesFollowsRead,
+  ],
+});
+
+/************************ */
+/*         SEARCH         */
+/************************ */
+
+// Search is billed against the app's bearer token, so every sync is capped to keep
+// a single doc from using up the whole quota.
+const SearchPageSize = 100;
+const DefaultSearchMaxResults = 100;
+const MaxSearchResults = 1000;
+const MaxSearchPages = 10;
+const MaxSearchQueryLength = 512;
+// Recent search only covers the last 7 days.
+const RecentSearchWindowMs = 7 * 24 * 60 * 60 * 1000;
+
+// https://developer.twitter.com/en/docs/twitter-api/tweets/search/integrate/build-a-query#list
+const StandaloneSearchOperators = [
+  "from",
+  "to",
+  "url",
+  "retweets_of",
+  "retweets_of_tweet_id",
+  "quotes_of_tweet_id",
+  "in_reply_to_tweet_id",
+  "context",
+  "entity",
+  "conversation_id",
+  "list",
+  "place",
+  "place_country",
+  "point_radius",
+  "bounding_box",
+];
+// These can only be used alongside at least one standalone operator or keyword.
+const ConjunctionRequiredSearchOperators = ["is", "has", "lang", "sample"];
+
+function validateSearchQuery(query: string) {
+  const trimmedQuery = query?.trim();
+  if (!trimmedQuery) {
+    throw new coda.UserVisibleError("Search query cannot be empty.");
+  }
+  if (trimmedQuery.length > MaxSearchQueryLength) {
+    throw new coda.UserVisibleError(
+      `Search query must be ${MaxSearchQueryLength} characters or less.`
+    );
+  }
+  if ((trimmedQuery.match(/"/g) ?? []).length % 2 !== 0) {
+    throw new coda.UserVisibleError("Search query has an unclosed quote.");
+  }
+
+  // Exact phrases can contain anything, so leave them out of the operator checks.
+  const unquotedQuery = trimmedQuery.replace(/"[^"]*"/g, " PHRASE ");
+  let openParentheses = 0;
+  for (const character of unquotedQuery) {
+    openParentheses += character === "(" ? 1 : character === ")" ? -1 : 0;
+    if (openParentheses < 0) {
+      throw new coda.UserVisibleError(
+        "Search query has unbalanced parentheses."
+      );
+    }
+  }
+  if (openParentheses !== 0) {
+    throw new coda.UserVisibleError("Search query has unbalanced parentheses.");
+  }
+
+  const terms = unquotedQuery.split(/[\s()]+/).filter(Boolean);
+  if (terms[0] === "OR" || terms[terms.length - 1] === "OR") {
+    throw new coda.UserVisibleError(
+      "Search query cannot start or end with OR."
+    );
+  }
+  let hasStandaloneTerm = false;
+  for (const term of terms) {
+    // Bare URLs like https://coda.io are keywords rather than operators.
+    const operator = term.match(/^-?(\w+):(?!\/\/)/)?.[1];
+    if (!operator) {
+      if (term !== "OR" && term !== "-") {
+        hasStandaloneTerm = true;
+      }
+      continue;
+    }
+    if (StandaloneSearchOperators.includes(operator)) {
+      hasStandaloneTerm = true;
+    } else if (!ConjunctionRequiredSearchOperators.includes(operator)) {
+      throw new coda.UserVisibleError(
+        `Search query uses an unsupported operator "${operator}:".`
+      );
+    }
+  }
+  if (!hasStandaloneTerm) {
+    throw new coda.UserVisibleError(
+      `Search query needs a keyword or a standalone operator alongside ${ConjunctionRequiredSearchOperators.map(
+        (o) => `"${o}:"`
+      ).join(", ")}.`
+    );
+  }
+  return trimmedQuery;
+}
+
+function parseSearchTimeRange(
+  startDate?: Date,
+  endDate?: Date
+): [string | undefined, string | undefined] {
+  const now = Date.now();
+  // Twitter rejects times outside of the search window, so clamp them to it.
+  const earliest = now - RecentSearchWindowMs + 60 * 1000;
+  const latest = now - 30 * 1000;
+  const startTime = startDate
+    ? Math.max(new Date(startDate).getTime(), earliest)
+    : undefined;
+  const endTime = endDate
+    ? Math.min(new Date(endDate).getTime(), latest)
+    : undefined;
+  if (startTime && endTime && startTime >= endTime) {
+    throw new coda.UserVisibleError("startTime must be before endTime.");
+  }
+  return [
+    startTime ? new Date(startTime).toISOString() : undefined,
+    endTime ? new Date(endTime).toISOString() : undefined,
+  ];
+}
+
+async function searchTweets(
+  [query, sinceTweetId, startDate, endDate, maxResults]: any[],
+  context: coda.ExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const resultLimit = maxResults ?? DefaultSearchMaxResults;
+  if (resultLimit < 1 || resultLimit > MaxSearchResults) {
+    throw new coda.UserVisibleError(
+      `maxResults must be between 1 and ${MaxSearchResults}.`
+    );
+  }
+  const fetchedCount = (continuation?.fetchedCount as number) ?? 0;
+  const pageCount = (continuation?.pageCount as number) ?? 0;
+
+  const [startTime, endTime] = parseSearchTimeRange(startDate, endDate);
+  const params = {
+    query: validateSearchQuery(query),
+    expansions: CommonTweetExpansions,
+    "tweet.fields": CommonTweetFields,
+    "user.fields": CommonTweetUserFields,
+    "media.fields": CommonTweetMediaFields,
+    "poll.fields": CommonTweetPollFields,
+    "place.fields": CommonTweetPlaceFields,
+    // Twitter requires at least 10 results per page.
+    max_results: Math.max(10, Math.min(SearchPageSize, resultLimit)),
+    ...(sinceTweetId ? { since_id: sinceTweetId } : {}),
+    ...(startTime ? { start_time: startTime } : {}),
+    ...(endTime ? { end_time: endTime } : {}),
+  };
+  const basePath = "/2/tweets/search/recent";
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const annotationInfo = includes;
+  const results = (data ?? [])
+    .slice(0, resultLimit - fetchedCount)
+    .map((rawTweet) => parseTweet(rawTweet, annotationInfo));
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+
+  const nextFetchedCount = fetchedCount + results.length;
+  const nextPageCount = pageCount + 1;
+  const reachedCap =
+    nextFetchedCount >= resultLimit || nextPageCount >= MaxSearchPages;
+  if (nextUrl && reachedCap) {
+    console.log(
+      `Stopped search after ${nextFetchedCount} results and ${nextPageCount} pages`
+    );
+  }
+  return {
+    result: results,
+    continuation:
+      nextUrl && !reachedCap
+        ? {
+            nextUrl,
+            fetchedCount: nextFetchedCount,
+            pageCount: nextPageCount,
+          }
+        : undefined,
+  };
+}
+
+pack.addSyncTable({
+  name: "SearchTweets",
+  identityName: "SearchTweet",
+  schema: coda.makeObjectSchema({
+    ...commonTweetSchema,
+    displayProperty: "url",
+    identity: { name: "SearchTweet" },
+  }),
+  formula: {
+    name: "SearchTweets",
+    description:
+      "Fetches tweets from the last 7 days for a given search query.",
+
+    parameters: [
+      queryParameter,
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "sinceTweetId",
+        description:
+          'Only return tweets posted after this tweet. Set it to the newest tweet from the last sync and turn on "keep unsynced rows" to only fetch new results.',
+        optional: true,
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.Date,
+        name: "startTime",
+        description:
+          "Only return tweets posted after this time. Recent search only covers the last 7 days.",
+        optional: true,
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.Date,
+        name: "endTime",
+        description: "Only return tweets posted before this time.",
+        optional: true,
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.Number,
+        name: "maxResults",
+        description: `The most tweets to fetch in a single sync, to preserve quotas. Defaults to ${DefaultSearchMaxResults} and must be at most ${MaxSearchResults}.`,
+        optional: true,
+      }),
+    ],
+
+    execute: (params, context) =>
+      searchTweets(params, context, context.sync.continuation),
+  },
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+// ARCHIVED FORMULAS
+pack.addFormula({
+  name: "GetUser",
+  description: "Gets information about a twitter user by handle.",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "handle",
+      description: "The Twitter handle you're interested in (omit the @)",
+    }),
+  ],
+
+  execute: getUser,
+  resultType: coda.ValueType.Object,
+  schema: userSchema,
+  // TODO(spencer): make this optional after fixing bug around column format
+  connectionRequirement: coda.ConnectionRequirement.None,
+  isExperimental: true,
+});
+
+pack.addFormula({
+  name: "GetTweet",
+  description: "Gets information about a tweet by ID or URL.",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "tweet",
+      description: "the tweet id or URL",
+    }),
+  ],
+
+  execute: getTweet,
+  resultType: coda.ValueType.Object,
+  schema: tweetSchema,
+  // TODO(spencer): make this optional after fixing bug around column format
+  connectionRequirement: coda.ConnectionRequirement.None,
+  isExperimental: true,
+});
+
+/************************ */
+/*     DIRECT MESSAGES    */
+/************************ */
+
+interface TwitterDirectMessageEvent {
+  id: string;
+  event_type: "MessageCreate" | "ParticipantsJoin" | "ParticipantsLeave";
+  text?: string;
+  created_at: string;
+  dm_conversation_id: string;
+  sender_id?: string;
+  participant_ids?: string[];
+}
+
+const CommonDirectMessageFields =
+  "id,text,event_type,created_at,dm_conversation_id,sender_id,participant_ids";
+const CommonDirectMessageExpansions = "sender_id,participant_ids";
+
+const MaxDirectMessageLength = 10000;
+
+const directMessageSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  idProperty: "id",
+  displayProperty: "text",
+  identity: {
+    name: "DirectMessage",
+  },
+  properties: {
+    id: { type: coda.ValueType.String },
+    text: { type: coda.ValueType.String },
+    // Either "MessageCreate", "ParticipantsJoin" or "ParticipantsLeave".
+    eventType: { type: coda.ValueType.String, fromKey: "event_type" },
+    createdAt: {
+      type: coda.ValueType.String,
+      fromKey: "created_at",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    conversationId: {
+      type: coda.ValueType.String,
+      fromKey: "dm_conversation_id",
+    },
+    sender: { ...userSchema },
+    participants: { type: coda.ValueType.Array, items: userSchema },
+    url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
+  },
+  featuredProperties: ["sender", "text", "createdAt"],
+  linkProperty: "url",
+});
+
+function parseDirectMessageEvent(
+  { sender_id, participant_ids, ...eventInfo }: TwitterDirectMessageEvent,
+  { users }: TweetAnnotationInfo = {}
+) {
+  const sender = users?.find((u) => u.id === sender_id);
+  return {
+    ...eventInfo,
+    sender: sender ? parseUser(sender) : undefined,
+    participants: (participant_ids ?? [])
+      .map((id) => users?.find((u) => u.id === id))
+      .filter(Boolean)
+      .map((user) => parseUser(user)),
+    url: `https://twitter.com/messages/${eventInfo.dm_conversation_id}`,
+  };
+}
+
+async function getDirectMessages(
+  context: coda.SyncExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const params = {
+    "dm_event.fields": CommonDirectMessageFields,
+    expansions: CommonDirectMessageExpansions,
+    "user.fields": CommonTweetUserFields,
+    max_results: 100,
+  };
+  const basePath = "/2/dm_events";
+  let url = continuation?.nextUrl
+    ? (continuation.nextUrl as string)
+    : apiUrl(basePath, params);
+
+  const response = await twitterFetch(context, { method: "GET", url });
+
+  const { data, includes } = response.body;
+  const results = data?.map((event) =>
+    parseDirectMessageEvent(event, includes)
+  );
+  const nextUrl = nextUrlFromResponse(basePath, params, response);
+  return {
+    result: results || [],
+    continuation: nextUrl ? { nextUrl } : undefined,
+  };
+}
+
+async function sendDirectMessage(
+  [userIdOrHandle, text]: string[],
+  context: coda.ExecutionContext
+): Promise<string> {
+  if (!text?.trim()) {
+    throw new coda.UserVisibleError("The message can't be empty.");
+  }
+  if (text.length > MaxDirectMessageLength) {
+    throw new coda.UserVisibleError(
+      `Direct messages must be ${MaxDirectMessageLength} characters or less.`
+    );
+  }
+  const participantId = await resolveUserId(userIdOrHandle, context);
+
+  try {
+    const response = await twitterFetch(context, {
+      method: "POST",
+      url: apiUrl(`/2/dm_conversations/with/${participantId}/messages`),
+      body: JSON.stringify({ text }),
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+    return response.body?.data?.dm_event_id;
+  } catch (error) {
+    if (
+      coda.StatusCodeError.isStatusCodeError(error) &&
+      error.statusCode === 403
+    ) {
+      throw new coda.UserVisibleError(
+        error.body?.detail ??
+          "This user can't be messaged. They may not accept direct messages from you."
+      );
+    }
+    throw error;
+  }
+}
+
+pack.addFormula({
+  resultType: coda.ValueType.String,
+  name: "SendDirectMessage",
+  description:
+    "Sends a direct message to a user. Returns the ID of the message sent",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "user",
+      description:
+        "The id, handle, or URL for the Twitter user to message. For example, '12312312312313' or 'spencerc99' or 'https://twitter.com/spencerc99'",
+      autocomplete: autocompleteFollowing,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "text",
+      description: "The message to send",
+    }),
+  ],
+  execute: sendDirectMessage,
+  connectionRequirement: coda.ConnectionRequirement.Required,
+  isAction: true,
+  // Putting all the write scopes in the same extraOAuth to avoid making you re-auth after you use each action.
+  extraOAuthScopes: [
+    ...OAuthScopesReadWrite,
+    ...OAuthScopesDirectMessages,
+    ...OAuthScopesFollowsRead,
+  ],
+});
+
+pack.addSyncTable({
+  name: "DirectMessages",
+  identityName: "DirectMessage",
+  schema: directMessageSchema,
+  formula: {
+    name: "DirectMessages",
+    description:
+      "Fetches the direct messages sent and received by the authenticated user in the last 30 days.",
+
+    parameters: [],
+
+    execute: (_params, context) =>
+      getDirectMessages(context, context.sync.continuation),
+    extraOAuthScopes: [...OAuthScopesReadWrite, ...OAuthScopesDirectMessages],
+  },
+  connectionRequirement: coda.ConnectionRequirement.Required,
+});
+
+/************************ */
+/*         SPACES         */
+/************************ */
+
+interface TwitterSpace {
+  id: string;
+  state: "live" | "scheduled" | "ended";
+  title?: string;
+  creator_id?: string;
+  host_ids?: string[];
+  speaker_ids?: string[];
+  participant_count?: number;
+  subscriber_count?: number;
+  scheduled_start?: string;
+  started_at?: string;
+  ended_at?: string;
+  created_at?: string;
+  lang?: string;
+  is_ticketed?: boolean;
+}
+
+const CommonSpaceFields =
+  "title,state,creator_id,host_ids,speaker_ids,participant_count,subscriber_count,scheduled_start,started_at,ended_at,created_at,lang,is_ticketed";
+const CommonSpaceExpansions = "creator_id,host_ids,speaker_ids";
+
+// https://twitter.com/i/spaces/1DXxyRYNejbKM
+const SpaceUrlRegex = /^.*twitter\.com\/i\/spaces\/(\w+)\??[^\/]*\/?(\?.*)?$/;
+const SpaceIdRegex = /^\w+$/;
+
+const SpaceStates = ["all", "live", "scheduled"];
+
+const spaceSchema = coda.makeObjectSchema({
+  type: coda.ValueType.Object,
+  idProperty: "id",
+  displayProperty: "title",
+  identity: {
+    name: "Space",
+  },
+  properties: {
+    id: { type: coda.ValueType.String },
+    title: { type: coda.ValueType.String },
+    // Either "live", "scheduled" or "ended".
+    state: { type: coda.ValueType.String },
+    creator: { ...userSchema },
+    hosts: { type: coda.ValueType.Array, items: userSchema },
+    speakers: { type: coda.ValueType.Array, items: userSchema },
+    participantCount: {
+      type: coda.ValueType.Number,
+      fromKey: "participant_count",
+    },
+    subscriberCount: {
+      type: coda.ValueType.Number,
+      fromKey: "subscriber_count",
+    },
+    scheduledStart: {
+      type: coda.ValueType.String,
+      fromKey: "scheduled_start",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    startedAt: {
+      type: coda.ValueType.String,
+      fromKey: "started_at",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    endedAt: {
+      type: coda.ValueType.String,
+      fromKey: "ended_at",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    createdAt: {
+      type: coda.ValueType.String,
+      fromKey: "created_at",
+      codaType: coda.ValueHintType.DateTime,
+    },
+    lang: { type: coda.ValueType.String },
+    isTicketed: { type: coda.ValueType.Boolean, fromKey: "is_ticketed" },
+    url: { type: coda.ValueType.String, codaType: coda.ValueHintType.Url },
+  },
+  featuredProperties: ["title", "state", "hosts", "participantCount"],
+  subtitleProperties: [
+    "state",
+    { property: "startedAt", label: "" },
+    {
+      property: "participantCount",
+      label: `${coda.PropertyLabelValueTemplate} listeners`,
+    },
+  ],
+  linkProperty: "url",
+});
+
+function parseSpaceId(spaceIdOrUrl: string): string {
+  const maybeSpaceIdMatch = spaceIdOrUrl.match(SpaceUrlRegex)?.[1];
+  const spaceId = (maybeSpaceIdMatch ?? spaceIdOrUrl).trim();
+
+  if (!SpaceIdRegex.test(spaceId)) {
+    throw new coda.UserVisibleError("Invalid space id");
+  }
+  return spaceId;
+}
+
+function parseSpace(
+  { creator_id, host_ids, speaker_ids, ...spaceInfo }: TwitterSpace,
+  { users }: TweetAnnotationInfo = {}
+) {
+  const findUsers = (ids: string[] = []) =>
+    ids
+      .map((id) => users?.find((u) => u.id === id))
+      .filter(Boolean)
+      .map((user) => parseUser(user));
+  const creator = users?.find((u) => u.id === creator_id);
+  return {
+    ...spaceInfo,
+    creator: creator ? parseUser(creator) : undefined,
+    hosts: findUsers(host_ids),
+    speakers: findUsers(speaker_ids),
+    url: `https://twitter.com/i/spaces/${spaceInfo.id}`,
+  };
+}
+
+const spaceParams = {
+  "space.fields": CommonSpaceFields,
+  expansions: CommonSpaceExpansions,
+  "user.fields": CommonTweetUserFields,
+};
+
+async function getSpace(
+  [spaceIdOrUrl]: string[],
+  context: coda.ExecutionContext
+) {
+  const spaceId = parseSpaceId(spaceIdOrUrl);
+  const response = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl(`/2/spaces/${spaceId}`, spaceParams),
+  });
+  const data = ensureFound<TwitterSpace>(
+    response.body,
+    `Space ${spaceId} was not found.`
+  );
+  return parseSpace(data, response.body.includes);
+}
+
+async function getUserSpaces(
+  [usersOrHandles]: any[],
+  context: coda.SyncExecutionContext,
+  continuation: coda.Continuation | undefined
+) {
+  const offset = (continuation?.offset as number) ?? 0;
+  const nextOffset = offset + MaxLookupBatchSize;
+  const userIds = await resolveUserIds(
+    usersOrHandles.slice(offset, nextOffset),
+    context
+  );
+
+  const response = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl("/2/spaces/by/creator_ids", {
+      ...spaceParams,
+      user_ids: userIds.join(","),
+    }),
+  });
+  const { data, includes } = response.body;
+  return {
+    result: (data ?? []).map((space) => parseSpace(space, includes)),
+    continuation:
+      nextOffset < usersOrHandles.length ? { offset: nextOffset } : undefined,
+  };
+}
+
+async function searchSpaces(
+  [query, state]: any[],
+  context: coda.ExecutionContext
+) {
+  if (state && !SpaceStates.includes(state)) {
+    throw new coda.UserVisibleError(
+      `State must be one of: ${SpaceStates.join(", ")}.`
+    );
+  }
+  const response = await twitterFetch(context, {
+    method: "GET",
+    url: apiUrl("/2/spaces/search", {
+      ...spaceParams,
+      query,
+      state: state ?? "all",
+      max_results: 100,
+    }),
+  });
+  const { data, includes } = response.body;
+  return {
+    result: (data ?? []).map((space) => parseSpace(space, includes)),
+  };
+}
+
+pack.addFormula({
+  name: "Space",
+  description: "Gets information about a Twitter Space by ID or URL.",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "space",
+      description: "The space id or URL",
+    }),
+  ],
+
+  execute: getSpace,
+  resultType: coda.ValueType.Object,
+  schema: spaceSchema,
+  connectionRequirement: coda.ConnectionRequirement.None,
+});
+
+pack.addColumnFormat({
+  name: "Space",
+  formulaName: "Space",
+  matchers: [SpaceUrlRegex],
+});
+
+pack.addSyncTable({
+  name: "UserSpaces",
+  identityName: "UserSpace",
+  schema: coda.makeObjectSchema({
+    ...spaceSchema,
+    identity: { name: "UserSpace" },
+  }),
+  formula: {
+    name: "UserSpaces",
+    description:
+      "Fetches the live and scheduled spaces created by a list of users.",
+
+    parameters: [
+      coda.makeParameter({
+        type: coda.ParameterType.StringArray,
+        name: "users",
+        description:
+          "The ids, handles or URLs of the users whose spaces to fetch, or 'me' for the connected account.",
+      }),
+    ],
+
+    execute: (params, context) =>
+      getUserSpaces(params, context, context.sync.continuation),
+    extraOAuthScopes: [...OAuthScopesRead, ...OAuthScopesSpaces],
+  },
+  connectionRequirement: coda.ConnectionRequirement.Optional,
+});
+
+pack.addSyncTable({
+  name: "SearchSpaces",
+  identityName: "SearchSpace",
+  schema: coda.makeObjectSchema({
+    ...spaceSchema,
+    identity: { name: "SearchSpace" },
+  }),
+  formula: {
+    name: "SearchSpaces",
+    description: "Fetches the spaces whose title matches a search query.",
+
+    parameters: [
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "query",
+        description: "The text to search for in space titles",
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "state",
+        description:
+          "Optional. Only return spaces that are 'live' or 'scheduled'. Defaults to 'all'.",
+        optional: true,
+        autocomplete: SpaceStates,
+      }),
+    ],
+
+    execute: (params, context) => searchSpaces(params, context),
+    extraOAuthScopes: [...OAuthScopesRead, ...OAuthScopesSpaces],
+  },
+  connectionRequirement: coda.ConnectionRequirement.Optional,
+});
+
+/**
+ * DEPRECATED SYNC TABLES
+ */
+pack.addSyncTable({
+  name: "UserTimeline",
+  identityName: "UserTimeline",
+  schema: coda.makeObjectSchema({
+    ...commonTweetSchema,
+    displayProperty: "url",
+    identity: { name: "UserTimeline" },
+  }),
+  formula: {
+    name: "UserTimeline",
+    description:
+      "Fetches the reverse chronological timeline for the authenticated user.",
+
+    parameters: [],
+
+    execute: async (_params, context) => {
+      const userId = await getAuthenticatedUserId(context);
 
       throw new coda.UserVisibleError(
         "This sync table is deprecated due to Twitter API search limits. I'm working on a new way to support this given the constraints. If interested, contact me at spencerc99@gmail.com"